@@ -0,0 +1,662 @@
+import jsQR from 'jsqr';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildImportPreview, createHandoffTracker, encodeCode128, encodeQR, extractCardsFromText, getCardExpiry, mergeSyncedCards, normalizeCardExpiry, parseBalanceSMS, parseExpiryInput, passesLuhn, planPayment, readSharedText, routeIncomingText, selectSnapshotsToKeep, syncWithRemote, validateCardFields, validateImportedCard } from './index.tsx';
+
+// --- Offline SMS Parser ---
+// Real-world balance replies, one or more per template, and messages that must not be read as a balance.
+
+const BALANCE_SMS_CORPUS: { template: string, text: string, balance: number, cardSuffix?: string, expiryDate?: string }[] = [
+  {
+    template: 'card-then-balance',
+    text: 'Dear Customer, your KFC Gift Card XXXXXXXXXXXX1234 has a balance of Rs.500.00 and is valid till 31-Dec-2025.',
+    balance: 500, cardSuffix: '1234', expiryDate: '2025-12-31'
+  },
+  {
+    template: 'card-then-balance',
+    text: 'KFC Gift Card No. ************9876\nBal: INR 2,000 Exp. 05/11/2026',
+    balance: 2000, cardSuffix: '9876', expiryDate: '2026-11-05'
+  },
+  {
+    template: 'balance-then-card',
+    text: 'Available Balance INR 1,250.50 on KFC Gift Card ending with 1234. Expiry Date: 15/03/2026',
+    balance: 1250.5, cardSuffix: '1234', expiryDate: '2026-03-15'
+  },
+  {
+    template: 'balance-only',
+    text: 'Your KFC gift card balance is ₹120. Card expires on 2026-01-31. T&C apply.',
+    balance: 120, expiryDate: '2026-01-31'
+  },
+  {
+    template: 'balance-only',
+    text: 'Your KFC gift card balance is Rs 0.00',
+    balance: 0
+  }
+];
+
+const NOT_A_BALANCE_SMS = [
+  '482913 is your OTP to check the balance of your KFC Gift Card. Do not share it with anyone.',
+  'Your OTP for KFC gift card balance enquiry is 482913. Valid for 10 mins.',
+  'Use verification code 7710 to view the balance on card ending 1234.',
+  'Your KFC gift card balance request has been received. You will get an SMS shortly.',
+  'Thank you for ordering from KFC! Your order #4521 will arrive in 30 minutes.',
+  ''
+];
+
+describe('parseBalanceSMS', () => {
+  BALANCE_SMS_CORPUS.forEach(sample => {
+    it(`reads a ${sample.template} reply: ${sample.text.slice(0, 40)}...`, () => {
+      expect(parseBalanceSMS(sample.text)).toEqual({
+        template: sample.template,
+        balance: sample.balance,
+        cardSuffix: sample.cardSuffix,
+        expiryDate: sample.expiryDate
+      });
+    });
+  });
+
+  NOT_A_BALANCE_SMS.forEach(text => {
+    it(`ignores "${text.slice(0, 40)}"`, () => {
+      expect(parseBalanceSMS(text)).toBeNull();
+    });
+  });
+});
+
+// --- Offline Card Extractor ---
+// Pasted e-gift emails and card lists, with the cards each one must yield.
+
+const CARD_TEXT_CORPUS: { layout: string, text: string, cards: { cardNumber: string, pin: string, balance: number, confidence: number }[] }[] = [
+  {
+    layout: 'labelled',
+    text: 'Dear Customer,\nCard Number: 6001 2200 1234 5678\nCard PIN: 123456\nValue: Rs. 1,000\nValid till 31-Dec-2026',
+    cards: [{ cardNumber: '6001220012345678', pin: '123456', balance: 1000, confidence: 0.95 }]
+  },
+  {
+    layout: 'labelled',
+    text: 'Card No. 6001-2200-5555-6666\nPin 4321',
+    cards: [{ cardNumber: '6001220055556666', pin: '4321', balance: 0, confidence: 0.8 }]
+  },
+  {
+    layout: 'labelled',
+    text: 'E-Gift Card No: 6001220011112222 PIN: 84\nE-Gift Card No: 6001220033334444 PIN: 123456789012\nAmount: INR 250',
+    cards: [
+      { cardNumber: '6001220011112222', pin: '84', balance: 0, confidence: 0.8 },
+      { cardNumber: '6001220033334444', pin: '123456789012', balance: 250, confidence: 0.95 }
+    ]
+  },
+  {
+    layout: 'tabular',
+    text: '1. 6001220012345678 | 123456 | 500\n2. 6001220087654321 | 654321 | 1,250.50',
+    cards: [
+      { cardNumber: '6001220012345678', pin: '123456', balance: 500, confidence: 0.7 },
+      { cardNumber: '6001220087654321', pin: '654321', balance: 1250.5, confidence: 0.7 }
+    ]
+  },
+  {
+    layout: 'tabular',
+    text: '6001 2200 1234 5678   123456   Rs.500',
+    cards: [{ cardNumber: '6001220012345678', pin: '123456', balance: 500, confidence: 0.7 }]
+  },
+  {
+    layout: 'tabular',
+    text: '6001220012345678,99',
+    cards: [{ cardNumber: '6001220012345678', pin: '99', balance: 0, confidence: 0.6 }]
+  }
+];
+
+const NOT_A_CARD_TEXT = [
+  'Thank you for ordering from KFC! Your order #4521 will arrive in 30 minutes. Call 1800 208 1234 for help.',
+  'Card Number: 6001220012345678 (PIN sent separately)',
+  ''
+];
+
+describe('extractCardsFromText', () => {
+  CARD_TEXT_CORPUS.forEach(sample => {
+    it(`reads a ${sample.layout} list: ${sample.text.slice(0, 40).replace(/\n/g, ' ')}...`, () => {
+      const { cards, leftover } = extractCardsFromText(sample.text);
+      expect(cards).toEqual(sample.cards);
+      expect(leftover).not.toMatch(/\d{4}[ \-]?\d{4}[ \-]?\d{4}/);
+    });
+  });
+
+  NOT_A_CARD_TEXT.forEach(text => {
+    it(`finds no card in "${text.slice(0, 40)}"`, () => {
+      expect(extractCardsFromText(text)).toEqual({ cards: [], leftover: text });
+    });
+  });
+});
+
+// --- Card Number Validation ---
+
+describe('passesLuhn', () => {
+  it.each(['4539578763621486', '79927398713', '0'])('accepts %s', digits => {
+    expect(passesLuhn(digits)).toBe(true);
+  });
+
+  it.each(['4539578763621487', '79927398710', '7992 7398 713', ''])('rejects "%s"', digits => {
+    expect(passesLuhn(digits)).toBe(false);
+  });
+});
+
+describe('validateCardFields', () => {
+  it('normalises separators, case and spaces in the PIN', () => {
+    expect(validateCardFields({ cardNumber: '6001 2200-1234 5678', pin: '12 34 56' })).toEqual({ cardNumber: '6001220012345678', pin: '123456', errors: {} });
+    expect(validateCardFields({ cardNumber: 'abcd-efgh-1234-56', pin: '', brand: 'amazon' }).cardNumber).toBe('ABCDEFGH123456');
+  });
+
+  it.each([
+    ['1234567', 'KFC card numbers are 8-20 digits'],
+    ['123456789012345678901', 'KFC card numbers are 8-20 digits'],
+    ['6001A20012345678', 'KFC card numbers are 8-20 digits']
+  ])('rejects the card number %s', (cardNumber, error) => {
+    expect(validateCardFields({ cardNumber, pin: '123456' }).errors).toEqual({ cardNumber: error });
+  });
+
+  it('accepts KFC card numbers at both length limits', () => {
+    expect(validateCardFields({ cardNumber: '12345678', pin: '123456' }).errors).toEqual({});
+    expect(validateCardFields({ cardNumber: '12345678901234567890', pin: '123456' }).errors).toEqual({});
+  });
+
+  it.each([['12', true], ['123456789012', true], ['1', false], ['1234567890123', false]])('checks a KFC PIN of %s', (pin, valid) => {
+    expect(validateCardFields({ cardNumber: '6001220012345678', pin }).errors).toEqual(valid ? {} : { pin: 'KFC PINs are 2-12 characters' });
+  });
+
+  it('asks for a missing PIN, and only where the brand has one', () => {
+    expect(validateCardFields({ cardNumber: '6001220012345678', pin: '' }).errors).toEqual({ pin: 'PIN is required' });
+    expect(validateCardFields({ cardNumber: 'ABCDEFGH123456', pin: '', brand: 'amazon' })).toEqual({ cardNumber: 'ABCDEFGH123456', pin: '', errors: {} });
+  });
+
+  it.each([[0, true], [100000, true], [-0.01, false], [100000.01, false], [NaN, false]])('checks a balance of %s', (balance, valid) => {
+    expect(validateCardFields({ cardNumber: '6001220012345678', pin: '123456', balance }).errors).toEqual(valid ? {} : { balance: 'Balance must be between ₹0 and ₹1,00,000' });
+  });
+
+  it('applies the rules of the chosen brand', () => {
+    expect(validateCardFields({ cardNumber: '6001220012345678', pin: '1234', brand: 'starbucks' }).errors).toEqual({ pin: 'Starbucks PINs are 8 digits' });
+    expect(validateCardFields({ cardNumber: '600122001234', pin: '123456', brand: 'pizzahut' }).errors).toEqual({ cardNumber: 'Pizza Hut card numbers are 16 digits' });
+  });
+});
+
+// --- Expiry Dates ---
+
+const ORIGINAL_TZ = process.env.TZ;
+
+const card = (expiryDate?: string) => ({ id: '1', cardNumber: '6001220012345678', pin: '123456', balance: 500, expiryDate, lastUpdated: 0 });
+
+describe('parseExpiryInput', () => {
+  it.each([
+    ['2026-03-31', '2026-03-31'],
+    ['2026/3/5', '2026-03-05'],
+    ['31-Dec-2025', '2025-12-31'],
+    ['31st December, 2025', '2025-12-31'],
+    ['Dec 31 2025', '2025-12-31'],
+    ['15/03/2026', '2026-03-15'],
+    ['15.03.2026', '2026-03-15']
+  ])('reads %s', (input, expected) => {
+    expect(parseExpiryInput(input)).toBe(expected);
+  });
+
+  it('adds 2000 to two-digit years', () => {
+    expect(parseExpiryInput('05/11/26')).toBe('2026-11-05');
+    expect(parseExpiryInput('31-Dec-99')).toBe('2099-12-31');
+    expect(parseExpiryInput('01 Jan 00')).toBe('2000-01-01');
+  });
+
+  it('reads numeric dates day-first when both orders are valid', () => {
+    expect(parseExpiryInput('03/04/2026')).toBe('2026-04-03');
+  });
+
+  it('falls back to month-first when only that order is a real date', () => {
+    expect(parseExpiryInput('12/31/2025')).toBe('2025-12-31');
+  });
+
+  it.each(['31/02/2026', '31/31/2026', '2026-13-01', '29/02/2025', 'next month', ''])('rejects %s', input => {
+    expect(parseExpiryInput(input)).toBeNull();
+  });
+
+  it('accepts 29 February in a leap year', () => {
+    expect(parseExpiryInput('29/02/2028')).toBe('2028-02-29');
+  });
+});
+
+describe('expiry time zones', () => {
+  afterEach(() => {
+    if (ORIGINAL_TZ === undefined) delete process.env.TZ;
+    else process.env.TZ = ORIGINAL_TZ;
+    vi.useRealTimers();
+  });
+
+  it('converts full timestamps to the local calendar day', () => {
+    process.env.TZ = 'Asia/Kolkata';
+    expect(parseExpiryInput('2026-03-31T20:00:00Z')).toBe('2026-04-01');
+    process.env.TZ = 'America/Los_Angeles';
+    expect(parseExpiryInput('2026-03-31T20:00:00Z')).toBe('2026-03-31');
+  });
+
+  it.each(['Asia/Kolkata', 'America/Los_Angeles', 'Pacific/Kiritimati'])('expires at local midnight in %s', timeZone => {
+    process.env.TZ = timeZone;
+    const expiry = getCardExpiry(card('2026-03-31'))!;
+    expect([expiry.getFullYear(), expiry.getMonth(), expiry.getDate(), expiry.getHours()]).toEqual([2026, 2, 31, 23]);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 2, 31, 23, 59, 59));
+    expect(expiry < new Date()).toBe(false);
+    vi.setSystemTime(new Date(2026, 3, 1, 0, 0, 0));
+    expect(expiry < new Date()).toBe(true);
+  });
+
+  it('has no expiry for missing or non-ISO values', () => {
+    expect(getCardExpiry(card())).toBeNull();
+    expect(getCardExpiry(card('31/03/2026'))).toBeNull();
+  });
+});
+
+describe('normalizeCardExpiry', () => {
+  it('converts readable free-text expiry to ISO', () => {
+    expect(normalizeCardExpiry(card('31-Dec-2025')).expiryDate).toBe('2025-12-31');
+  });
+
+  it('keeps unreadable expiry aside as text', () => {
+    const migrated = normalizeCardExpiry(card('end of year'));
+    expect(migrated.expiryDate).toBeUndefined();
+    expect(migrated.expiryText).toBe('end of year');
+  });
+
+  it('leaves ISO dates untouched', () => {
+    const original = card('2026-03-31');
+    expect(normalizeCardExpiry(original)).toBe(original);
+  });
+});
+
+// --- Import Validation ---
+
+describe('validateImportedCard', () => {
+  const row = { cardNumber: '6001 2200-1234 5678', pin: 123456, balance: 500, expiryDate: '31-Dec-2026', lastUpdated: '2026-01-01T00:00:00Z' };
+
+  it('cleans a valid row', () => {
+    const result = validateImportedCard(row);
+    expect('card' in result && result.card).toMatchObject({
+      cardNumber: '6001220012345678', pin: '123456', balance: 500, expiryDate: '2026-12-31', lastUpdated: Date.parse('2026-01-01T00:00:00Z')
+    });
+  });
+
+  it.each([
+    [null, 'Not a card object'],
+    [[row], 'Not a card object'],
+    [{ ...row, cardNumber: undefined }, 'Missing card number'],
+    [{ ...row, pin: undefined }, 'Missing or malformed PIN'],
+    [{ ...row, cardNumber: '1234' }, 'KFC card numbers are 8-20 digits'],
+    [{ ...row, balance: -1 }, 'Balance must be a non-negative number'],
+    [{ ...row, balance: '500' }, 'Balance must be a non-negative number'],
+    [{ ...row, expiryDate: 'soon' }, 'Unrecognised expiry date "soon"'],
+    [{ ...row, lastUpdated: undefined }, 'Missing or invalid lastUpdated'],
+    [{ ...row, history: [{ at: 1, previousBalance: 0, newBalance: 500, source: 'gift' }] }, 'Malformed balance history']
+  ])('rejects %j', (raw, error) => {
+    expect(validateImportedCard(raw)).toEqual({ error });
+  });
+});
+
+describe('buildImportPreview', () => {
+  const row = (cardNumber: string, balance = 500) => ({ cardNumber, pin: '123456', balance, lastUpdated: 1 });
+  const local = (cardNumber: string, balance = 500) => ({ ...card(), id: cardNumber, cardNumber, balance });
+
+  it('sorts rows into added, updated, unchanged and rejected', () => {
+    const preview = buildImportPreview([local('6001220011111111'), local('6001220022222222')], [
+      row('6001220011111111'), row('6001220022222222', 250), row('6001220033333333'), { cardNumber: '6001220044444444' }
+    ]);
+    expect(preview.unchanged.map(c => c.cardNumber)).toEqual(['6001220011111111']);
+    expect(preview.updated.map(u => [u.local.balance, u.incoming.balance])).toEqual([[500, 250]]);
+    expect(preview.added.map(c => c.cardNumber)).toEqual(['6001220033333333']);
+    expect(preview.rejected).toEqual([{ row: 4, reason: 'Missing or malformed PIN' }]);
+  });
+
+  it('matches local cards whatever separators either side uses', () => {
+    const preview = buildImportPreview([local('6001 2200 1111 1111')], [row('6001-2200-1111-1111')]);
+    expect(preview.added).toEqual([]);
+    expect(preview.unchanged).toHaveLength(1);
+  });
+
+  it('rejects a card repeated later in the file, even written differently', () => {
+    const preview = buildImportPreview([], [row('6001220011111111'), row('6001 2200 1111 1111', 100)]);
+    expect(preview.added.map(c => c.balance)).toEqual([500]);
+    expect(preview.rejected).toEqual([{ row: 2, reason: 'Duplicate of card 6001220011111111 earlier in file' }]);
+  });
+
+  it('offers a trashed card as a change instead of adding it twice or skipping it', () => {
+    const trashed = { ...local('6001220011111111'), deletedAt: 1 };
+    const preview = buildImportPreview([trashed], [row('6001220011111111')]);
+    expect(preview.added).toEqual([]);
+    expect(preview.unchanged).toEqual([]);
+    expect(preview.updated.map(u => u.local)).toEqual([trashed]);
+  });
+});
+
+// --- Rotating Snapshots ---
+
+describe('selectSnapshotsToKeep', () => {
+  const HOUR = 60 * 60 * 1000;
+  const snapshots = [0, 1, 2, 30, 200].map(hoursAgo => ({ name: `s${hoursAgo}`, createdAt: Date.UTC(2026, 9, 19, 12) - hoursAgo * HOUR, size: 100 }));
+
+  it('never prunes the newest snapshot, even with every limit at 0', () => {
+    expect([...selectSnapshotsToKeep(snapshots, { keepLast: 0, keepDaily: 0, keepWeekly: 0 })]).toEqual(['s0']);
+  });
+
+  it('keeps the newest `keepLast` snapshots', () => {
+    expect([...selectSnapshotsToKeep(snapshots, { keepLast: 3, keepDaily: 0, keepWeekly: 0 })]).toEqual(['s0', 's1', 's2']);
+  });
+});
+
+// --- Remote Sync ---
+// `base` is what this device last agreed with the server on: card id -> lastUpdated.
+
+const synced = (id: string, lastUpdated: number, changes: object = {}) => ({ ...card(), id, cardNumber: `600122001234${id.padStart(4, '0')}`, lastUpdated, ...changes });
+
+describe('mergeSyncedCards', () => {
+  const base = { a: 1 };
+
+  it('keeps a card neither side touched', () => {
+    expect(mergeSyncedCards([synced('a', 1)], [synced('a', 1)], base)).toEqual({ cards: [synced('a', 1)], conflicts: [] });
+  });
+
+  it('takes the edit from whichever side made it', () => {
+    expect(mergeSyncedCards([synced('a', 1)], [synced('a', 2, { balance: 300 })], base).cards).toEqual([synced('a', 2, { balance: 300 })]);
+    expect(mergeSyncedCards([synced('a', 2, { balance: 300 })], [synced('a', 1)], base).cards).toEqual([synced('a', 2, { balance: 300 })]);
+  });
+
+  it('keeps the newer edit when both sides changed a card, and reports the other', () => {
+    const local = synced('a', 3, { balance: 100 });
+    const remote = synced('a', 2, { balance: 300 });
+    expect(mergeSyncedCards([local], [remote], base)).toEqual({ cards: [local], conflicts: [{ id: 'a', local, remote, kept: 'local' }] });
+  });
+
+  it('does not report a conflict when both sides made the same change', () => {
+    expect(mergeSyncedCards([synced('a', 3, { balance: 100 })], [synced('a', 2, { balance: 100 })], base).conflicts).toEqual([]);
+  });
+
+  it('keeps cards added on either side since the last sync', () => {
+    expect(mergeSyncedCards([synced('a', 1), synced('b', 5)], [synced('a', 1), synced('c', 6)], base).cards.map(c => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('deletes a card the other side removed and this side left alone', () => {
+    expect(mergeSyncedCards([synced('a', 1)], [], base).cards).toEqual([]);
+    expect(mergeSyncedCards([], [synced('a', 1)], base).cards).toEqual([]);
+  });
+
+  it('carries a card purged from the trash over to the side that still has it trashed', () => {
+    const trashed = synced('a', 4, { deletedAt: 4 });
+    expect(mergeSyncedCards([], [trashed], { a: 4 }).cards).toEqual([]);
+  });
+
+  it('keeps a card that was edited on one side while the other deleted it', () => {
+    const edited = synced('a', 2, { balance: 300 });
+    expect(mergeSyncedCards([], [edited], base).cards).toEqual([edited]);
+    expect(mergeSyncedCards([edited], [], base).cards).toEqual([edited]);
+  });
+
+  it('treats moving to the trash as an edit, so a later edit elsewhere wins and is reported', () => {
+    const trashed = synced('a', 2, { deletedAt: 2 });
+    const edited = synced('a', 3, { balance: 300 });
+    expect(mergeSyncedCards([trashed], [edited], base)).toEqual({ cards: [edited], conflicts: [{ id: 'a', local: trashed, remote: edited, kept: 'remote' }] });
+  });
+
+  it('folds the same card added on two devices into the newer copy under the smaller id', () => {
+    const entry = (at: number) => ({ at, previousBalance: 0, newBalance: 500, source: 'added' as const });
+    const older = { ...synced('b', 5, { history: [entry(5)] }), cardNumber: '6001220099999999' };
+    const newer = { ...synced('c', 6, { balance: 450, history: [entry(6)] }), cardNumber: '6001 2200 9999 9999' };
+    expect(mergeSyncedCards([older], [newer], {}).cards).toEqual([{ ...newer, id: 'b', history: [entry(5), entry(6)] }]);
+  });
+});
+
+describe('syncWithRemote', () => {
+  // A sync file with ETags, as a WebDAV or S3 server keeps it. `race` lets another device write first.
+  const createMemoryRemote = () => {
+    let file: { etag: string, body: string } | null = null;
+    let version = 0;
+    const remote = {
+      writes: 0,
+      race: null as (() => Promise<void>) | null,
+      put: (body: string) => { file = { etag: `"${++version}"`, body }; },
+      read: async (knownEtag: string | null) => (!file ? null : file.etag === knownEtag ? { etag: knownEtag, body: null } : { ...file }),
+      write: async (body: string, expected: { etag: string | null } | null) => {
+        remote.writes++;
+        if (remote.race) { const race = remote.race; remote.race = null; await race(); }
+        if ((expected?.etag ?? null) !== (file?.etag ?? null)) return null;
+        remote.put(body);
+        return { etag: file!.etag };
+      }
+    };
+    return remote;
+  };
+
+  const createBackupKey = async (salt = 'c2FsdA==') => ({
+    kdf: { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations: 1, salt },
+    key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  });
+
+  const EMPTY = { etag: null, salt: null, cards: {} };
+
+  it('creates the sync file from this device on first sync', async () => {
+    const remote = createMemoryRemote();
+    const result = await syncWithRemote(remote, await createBackupKey(), [synced('a', 1)], EMPTY);
+    expect(result).toEqual({ status: 'synced', cards: null, conflicts: [], baseline: { etag: '"1"', salt: 'c2FsdA==', cards: { a: 1 } } });
+  });
+
+  it('neither downloads nor writes when nothing changed on either side', async () => {
+    const remote = createMemoryRemote();
+    const backupKey = await createBackupKey();
+    const first = await syncWithRemote(remote, backupKey, [synced('a', 1)], EMPTY);
+    if (first.status !== 'synced') throw new Error('first sync failed');
+    const second = await syncWithRemote(remote, backupKey, [synced('a', 1)], first.baseline);
+    expect(second).toEqual({ status: 'synced', cards: null, conflicts: [], baseline: first.baseline });
+    expect(remote.writes).toBe(1);
+  });
+
+  it("merges another device's changes and pushes the result", async () => {
+    const remote = createMemoryRemote();
+    const backupKey = await createBackupKey();
+    const first = await syncWithRemote(remote, backupKey, [synced('a', 1)], EMPTY);
+    if (first.status !== 'synced') throw new Error('first sync failed');
+    await syncWithRemote(remote, backupKey, [synced('a', 2, { balance: 300 })], first.baseline); // the other device
+
+    const result = await syncWithRemote(remote, backupKey, [synced('a', 1), synced('b', 5)], first.baseline);
+    expect(result.status === 'synced' && result.cards).toEqual([synced('a', 2, { balance: 300 }), synced('b', 5)]);
+    expect(result.status === 'synced' && result.baseline.cards).toEqual({ a: 2, b: 5 });
+  });
+
+  it('merges again when another device writes between the read and the write', async () => {
+    const remote = createMemoryRemote();
+    const backupKey = await createBackupKey();
+    const first = await syncWithRemote(remote, backupKey, [synced('a', 1)], EMPTY);
+    if (first.status !== 'synced') throw new Error('first sync failed');
+    remote.race = async () => { await syncWithRemote(remote, backupKey, [synced('a', 1), synced('c', 6)], first.baseline); };
+
+    const result = await syncWithRemote(remote, backupKey, [synced('a', 1), synced('b', 5)], first.baseline);
+    expect(result.status === 'synced' && result.cards?.map(c => c.id)).toEqual(['a', 'b', 'c']);
+    expect(remote.writes).toBe(4); // first sync, the rejected write, the other device's, the retry
+  });
+
+  it('gives up when the file keeps changing under it', async () => {
+    const remote = createMemoryRemote();
+    remote.write = async () => null;
+    await expect(syncWithRemote(remote, await createBackupKey(), [synced('a', 1)], EMPTY)).rejects.toThrow('keeps changing');
+  });
+
+  it('asks for the password when the file was written with a different one', async () => {
+    const remote = createMemoryRemote();
+    await syncWithRemote(remote, await createBackupKey('b3RoZXI='), [synced('a', 1)], EMPTY);
+    expect(await syncWithRemote(remote, await createBackupKey(), [synced('a', 1)], EMPTY)).toEqual({ status: 'needs-password' });
+    expect(await syncWithRemote(remote, null, [synced('a', 1)], EMPTY)).toEqual({ status: 'needs-password' });
+  });
+
+  it("refuses a file that isn't a backup", async () => {
+    const remote = createMemoryRemote();
+    remote.put('{"cards": []}');
+    await expect(syncWithRemote(remote, await createBackupKey(), [], EMPTY)).rejects.toThrow("isn't a gift card backup");
+  });
+});
+
+// --- Barcodes ---
+
+describe('encodeCode128', () => {
+  // Start, data and check symbols, then the stop pattern, as bar/space widths
+  const widths = (...patterns: string[]) => patterns.join('').split('').map(Number);
+
+  it('packs even-length digits into code set C', () => {
+    // START C, 12, 34, check (105 + 12 + 2 * 34) % 103 = 82, STOP
+    expect(encodeCode128('1234')).toEqual(widths('211232', '112232', '131123', '121241', '2331112'));
+  });
+
+  it('uses code set B for text and odd-length digits', () => {
+    // START B, "A", "B", check (104 + 33 + 2 * 34) % 103 = 102, STOP
+    expect(encodeCode128('AB')).toEqual(widths('211214', '111323', '131123', '411131', '2331112'));
+    expect(encodeCode128('123').length).toBe(6 * 5 + 7);
+  });
+
+  it('refuses characters outside printable ASCII', () => {
+    expect(() => encodeCode128('₹500')).toThrow();
+  });
+});
+
+describe('encodeQR', () => {
+  // Draws the matrix with a 4-module quiet zone, `scale` pixels per module, and reads it back
+  const decode = (matrix: boolean[][], scale = 4) => {
+    const side = (matrix.length + 8) * scale;
+    const pixels = new Uint8ClampedArray(side * side * 4).fill(255);
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const i = (((y + 4) * scale + dy) * side + (x + 4) * scale + dx) * 4;
+          pixels.fill(0, i, i + 3);
+        }
+      }
+    }));
+    return jsQR(pixels, side, side)?.data;
+  };
+
+  it.each([
+    ['short', '6001220012345678', 25],
+    ['medium', JSON.stringify({ cardNumber: '6001220012345678', pin: '123456', balance: 1250.5, expiryDate: '2026-12-31' }), 41],
+    ['version 10', 'KFC gift card 6001220012345678 PIN 123456. '.repeat(5).slice(0, 200), 57]
+  ])('round-trips a %s payload through a QR reader', (_, text, size) => {
+    const matrix = encodeQR(text);
+    expect(matrix.length).toBe(size);
+    expect(decode(matrix)).toBe(text);
+  });
+
+  it('keeps non-ASCII text intact', () => {
+    expect(decode(encodeQR('Balance ₹500'))).toBe('Balance ₹500');
+  });
+});
+
+// --- Incoming Text ---
+
+describe('readSharedText', () => {
+  it('joins whichever share fields the sending app filled in', () => {
+    expect(readSharedText('?share_title=KFC+e-Gift+Card&share_text=Card+No%3A+6001220012345678%0APIN%3A+123456')).toBe('KFC e-Gift Card\nCard No: 6001220012345678\nPIN: 123456');
+  });
+
+  it('keeps a URL-only share', () => {
+    expect(readSharedText('?share_url=https%3A%2F%2Fgift.kfc.co.in%2Fbalance')).toBe('https://gift.kfc.co.in/balance');
+  });
+
+  it('returns empty text for a share with nothing in it, and null when the page was not opened by a share', () => {
+    expect(readSharedText('?share_title=&share_text=%20')).toBe('');
+    expect(readSharedText('')).toBeNull();
+    expect(readSharedText('?utm_source=homescreen')).toBeNull();
+  });
+});
+
+describe('routeIncomingText', () => {
+  const wallet = [{ ...card(), id: 'a', cardNumber: '6001220012341234' }, { ...card(), id: 'b', cardNumber: '6001220099995678' }];
+
+  it('sends a balance SMS to the card it names', () => {
+    const text = 'Available Balance INR 1,250.50 on KFC Gift Card ending with 1234. Expiry Date: 15/03/2026';
+    expect(routeIncomingText(text, wallet)).toEqual({ kind: 'balance', text, card: wallet[0] });
+  });
+
+  it("explains a balance SMS for a card that isn't in the wallet, or that names no card", () => {
+    expect(routeIncomingText('Available Balance INR 100 on KFC Gift Card ending with 4321.', wallet))
+      .toEqual({ kind: 'none', reason: "This balance reply is for a card ending 4321, which isn't in your wallet." });
+    expect(routeIncomingText('Your KFC gift card balance is ₹120.', wallet)).toMatchObject({ kind: 'none', reason: expect.stringContaining("doesn't say which") });
+  });
+
+  it('sends a card list with a new card to the add flow, and skips one the wallet already has', () => {
+    const list = '6001220012341234 | 123456 | 500\n6001220055556666 | 654321 | 250';
+    expect(routeIncomingText(list, wallet)).toEqual({ kind: 'cards', text: list });
+    expect(routeIncomingText('6001 2200 1234 1234 | 123456 | 500', wallet)).toEqual({ kind: 'none', reason: 'These cards are already in your wallet.' });
+  });
+
+  it('offers a card back out of the trash', () => {
+    const trashed = [{ ...wallet[0], deletedAt: 1 }];
+    expect(routeIncomingText('6001220012341234 | 123456 | 500', trashed)).toMatchObject({ kind: 'cards' });
+  });
+
+  it('leaves card-shaped text the offline extractor cannot read to the AI', () => {
+    const text = 'Your voucher 6001 2200 7777 8888 is ready';
+    expect(routeIncomingText(text, wallet)).toEqual({ kind: 'cards', text });
+  });
+
+  it.each(['https://gift.kfc.co.in/balance', ''])('finds nothing in "%s"', text => {
+    expect(routeIncomingText(text, wallet)).toEqual({ kind: 'none', reason: 'No gift card details found in the shared text.' });
+  });
+});
+
+// --- Auto-Lock ---
+// The app locks (and drops every open modal) when leave() returns 0 or comeBack() returns true.
+
+describe('hand-off to another app', () => {
+  const SECOND = 1000;
+  const t0 = Date.UTC(2026, 9, 19, 12);
+
+  it('keeps the SMS balance check open through the round trip to the SMS app', () => {
+    const handoff = createHandoffTracker();
+    handoff.begin(t0); // "Open SMS App"
+    expect(handoff.leave(t0 + SECOND)).toBeGreaterThan(0);
+    expect(handoff.comeBack(t0 + 90 * SECOND)).toBe(false); // back in time for step 2
+  });
+
+  it('locks right away when the app is hidden without a hand-off', () => {
+    expect(createHandoffTracker().leave(t0)).toBe(0);
+  });
+
+  it('locks on return when the trip outlasted the grace period', () => {
+    const handoff = createHandoffTracker();
+    handoff.begin(t0);
+    const grace = handoff.leave(t0 + SECOND);
+    expect(handoff.comeBack(t0 + SECOND + grace)).toBe(true);
+  });
+
+  it('covers a single trip out', () => {
+    const handoff = createHandoffTracker();
+    handoff.begin(t0);
+    handoff.leave(t0 + SECOND);
+    handoff.comeBack(t0 + 10 * SECOND);
+    expect(handoff.leave(t0 + 20 * SECOND)).toBe(0);
+  });
+});
+
+// --- Split Payment ---
+
+describe('planPayment', () => {
+  const cards = (balances: number[]) => balances.map((balance, i) => ({ ...card(), id: String(i), cardNumber: `600122001234${String(i).padStart(4, '0')}`, balance }));
+
+  it('combines the cards that add up closest to the bill for least leftover', () => {
+    const plan = planPayment(cards([500, 300, 250, 200]), 450, 'dust');
+    expect(plan.lines.map(l => [l.card.balance, l.amount])).toEqual([[200, 200], [250, 250]]);
+    expect(plan.shortfall).toBe(0);
+  });
+
+  it('uses the largest balances first for fewest cards', () => {
+    const plan = planPayment(cards([100, 500, 300]), 650, 'fewest');
+    expect(plan.lines.map(l => l.amount)).toEqual([500, 150]);
+  });
+
+  it('reports what the cards cannot cover', () => {
+    expect(planPayment(cards([100, 50.25]), 200, 'dust').shortfall).toBe(49.75);
+  });
+
+  it('still covers the bill when there are too many cards for the exact search', () => {
+    const plan = planPayment(cards(Array.from({ length: 30 }, (_, i) => 10 + i * 7.5)), 1000, 'dust');
+    expect(plan.shortfall).toBe(0);
+    expect(plan.lines.reduce((sum, l) => sum + l.amount, 0)).toBe(1000);
+  });
+});
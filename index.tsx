@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { GoogleGenAI, Type } from "@google/genai";
+import jsQR from 'jsqr';
+import { createWorker } from 'tesseract.js';
 import { 
   CreditCard, 
   RefreshCw, 
@@ -46,256 +48,3308 @@ import {
   HelpCircle,
   FolderInput,
   Folder,
-  HardDrive
+  HardDrive,
+  History,
+  CalendarClock,
+  ArchiveRestore,
+  Undo2,
+  RotateCcw,
+  Fingerprint,
+  Calculator,
+  QrCode,
+  ScanLine,
+  Camera,
+  ImagePlus
 } from 'lucide-react';
 
 // --- Types ---
 
+type BalanceSource = 'added' | 'manual' | 'sms' | 'import' | 'payment';
+
+// Append-only record of every balance change on a card
+interface BalanceHistoryEntry {
+  at: number;
+  previousBalance: number;
+  newBalance: number;
+  source: BalanceSource;
+  note?: string;
+}
+
 interface GiftCard {
   id: string;
   cardNumber: string;
   pin: string;
   balance: number;
-  expiryDate?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  expiryText?: string; // pre-ISO expiry that couldn't be read during migration
   lastUpdated: number;
+  history?: BalanceHistoryEntry[];
+  deletedAt?: number; // set while the card is in the trash
+  brand?: string; // id in BRANDS; cards from before brands existed are KFC cards
+  sharedWith?: { name: string, at: number }; // handed to someone else, who may spend it
 }
 
 interface NewCardData {
   cardNumber: string;
   pin: string;
   balance: number;
+  expiryDate?: string;
+  brand?: string;
+}
+
+// A card pulled out of pasted text, with how sure the extractor is (0-1)
+interface ExtractedCard extends NewCardData {
+  confidence: number;
+}
+
+interface ImportRejection {
+  row: number;
+  reason: string;
+}
+
+interface ImportUpdate {
+  local: GiftCard;
+  incoming: GiftCard;
+}
+
+interface ImportPreview {
+  added: GiftCard[];
+  updated: ImportUpdate[];
+  unchanged: GiftCard[];
+  rejected: ImportRejection[];
+}
+
+// Pre-computed notification the service worker fires once `at` has passed. The reminder store is not
+// encrypted, so the text stays generic; the card and its balance are shown in the app after unlock.
+interface ExpiryReminder {
+  tag: string;
+  cardId: string;
+  at: number;
+  expiresAt: number;
+  title: string;
+  body: string;
 }
 
 interface CardItemProps {
   card: GiftCard;
   onDelete: (id: string) => void;
-  onUpdateBalance: (id: string, newBalance: number, newExpiry?: string) => void;
+  onUpdateBalance: (id: string, newBalance: number, newExpiry?: string, source?: BalanceSource, note?: string) => void;
   onCheckBalance: (card: GiftCard) => void;
+  onPresent?: (card: GiftCard) => void;
+  onShare?: (card: GiftCard) => void;
+  onClearShared?: (id: string) => void;
   isArchived?: boolean;
+  revealSeconds?: number; // re-mask shown details after this long; 0 keeps them visible
 }
 
-// --- IndexedDB Wrapper for File Handles ---
-// This allows us to persist the file connection across page reloads
+// --- IndexedDB Wrapper ---
+// Holds the backup file handle (so the file connection survives reloads), the reminder schedule
+// and the encrypted cards
 const DB_NAME = 'kfc_db';
 const STORE_NAME = 'handles';
+// Shared with sw.js, which reads the reminder schedule while the app is closed
+const REMINDER_STORE = 'reminders';
+const CARD_STORE = 'cards';
+
+const ensureStore = (db: IDBDatabase, name: string, options?: IDBObjectStoreParameters) => {
+  // Databases from before the migration list existed may already hold some of these stores
+  if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+};
+
+// DB_MIGRATIONS[n] upgrades the schema from version n to n + 1. Append only; never edit a shipped step.
+const DB_MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  db => ensureStore(db, STORE_NAME),
+  db => ensureStore(db, REMINDER_STORE),
+  db => ensureStore(db, CARD_STORE, { keyPath: 'id' })
+];
+const DB_VERSION = DB_MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
 
 const initDB = () => {
-  return new Promise<IDBDatabase>((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onupgradeneeded = (e: any) => {
-      e.target.result.createObjectStore(STORE_NAME);
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      for (let version = e.oldVersion; version < DB_VERSION; version++) DB_MIGRATIONS[version](request.result);
     };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab (or a reset) upgrade/delete the database instead of blocking it
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => { dbPromise = null; reject(request.error); };
+  });
+  return dbPromise;
+};
+
+const clearStores = async (names: string[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(names, 'readwrite');
+    names.forEach(name => tx.objectStore(name).clear());
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
   });
 };
 
-const saveHandle = async (handle: FileSystemFileHandle) => {
+const BACKUP_DIR_KEY = 'backup_dir';
+// Before rotating snapshots, auto-backup overwrote a single file whose handle was kept under this key.
+// A file handle can't stand in for a folder, so it is only used to ask the user to pick one.
+const LEGACY_BACKUP_FILE_KEY = 'backup_handle';
+
+const saveHandle = async (handle: FileSystemHandle, key = BACKUP_DIR_KEY) => {
   const db = await initDB();
   return new Promise<void>((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
-    store.put(handle, 'backup_handle');
+    store.put(handle, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const deleteHandle = async (key: string) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(key);
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
 };
 
-const getHandle = async (): Promise<FileSystemFileHandle | undefined> => {
+const getHandle = async <T extends FileSystemHandle = FileSystemDirectoryHandle>(key = BACKUP_DIR_KEY): Promise<T | undefined> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readonly');
     const store = tx.objectStore(STORE_NAME);
-    const request = store.get('backup_handle');
+    const request = store.get(key);
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-// --- Gemini AI Setup ---
+const saveReminderSchedule = async (reminders: ExpiryReminder[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, 'readwrite');
+    tx.objectStore(REMINDER_STORE).put(reminders, 'schedule');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Vault Encryption ---
+// Cards are encrypted with a random AES-GCM data key. That key is itself wrapped with a key
+// stretched from the app PIN (PBKDF2), so neither the PIN nor the card list is stored in the clear.
+const VAULT_STORAGE_KEY = 'kfc_vault';
+// v1 kept the whole card list in `payload`; v2 keeps cards in IndexedDB (see Card Repository)
+const VAULT_VERSION = 2;
+const PBKDF2_ITERATIONS = 600000;
 
-const getApiKey = () => {
-  return localStorage.getItem('kfc_api_key') || '';
+interface EncryptedBlob {
+  iv: string;
+  data: string;
+}
+
+interface KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+}
+
+// What the lock screen asks for. Not secret; vaults from before this existed use a 4-digit PIN.
+type VaultCredential = { type: 'pin', length: number } | { type: 'passphrase' };
+
+const DEFAULT_CREDENTIAL: VaultCredential = { type: 'pin', length: 4 };
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 8;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface StoredVault {
+  version: number;
+  kdf: KdfParams;
+  wrappedKey: EncryptedBlob;
+  credential?: VaultCredential;
+  biometric?: BiometricUnlock;
+  payload?: EncryptedBlob;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
 };
 
-const getAI = () => new GoogleGenAI({ apiKey: getApiKey() });
+const fromBase64 = (str: string) => Uint8Array.from(atob(str), c => c.charCodeAt(0));
 
-const checkApiKeyConfigured = (openSettings: () => void) => {
-  const key = getApiKey();
-  if (!key) {
-    if(confirm("⚠️ AI Key Missing\n\nYou need to add your Gemini API Key in Settings to use this feature.\n\nOpen Settings now?")) {
-      openSettings();
-    }
-    return false;
+const createKdfParams = (): KdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(16)))
+});
+
+const deriveSecretBits = async (secret: string, kdf: KdfParams) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: kdf.hash, salt: fromBase64(kdf.salt), iterations: kdf.iterations },
+    material,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+const deriveKeyFromSecret = async (secret: string, kdf: KdfParams) => {
+  const bits = await deriveSecretBits(secret, kdf);
+  const key = await importDataKey(bits);
+  bits.fill(0);
+  return key;
+};
+
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+};
+
+const decryptBytes = async (key: CryptoKey, blob: EncryptedBlob) => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+  return new Uint8Array(plain);
+};
+
+const encryptJSON = (key: CryptoKey, value: unknown) => encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+const decryptJSON = async <T,>(key: CryptoKey, blob: EncryptedBlob): Promise<T> => {
+  const bytes = await decryptBytes(key, blob);
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+const importDataKey = (raw: Uint8Array) => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const loadStoredVault = (): StoredVault | null => {
+  const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
+// Pre-encryption installs kept the PIN and cards as plain localStorage entries
+const hasLegacyVault = () => !loadStoredVault() && !!localStorage.getItem('kfc_app_pin');
+
+const readLegacyCards = (): GiftCard[] => {
+  const saved = localStorage.getItem('kfc_cards');
+  return saved ? JSON.parse(saved) : [];
+};
+
+const clearLegacyVault = () => {
+  localStorage.removeItem('kfc_app_pin');
+  localStorage.removeItem('kfc_cards');
+};
+
+// "Forgot PIN": the cards can't be decrypted any more, so they go, along with the sync credentials
+// that were encrypted under them. Settings and the backup folder are kept; its snapshots have their
+// own password and can be restored once a new PIN is set.
+const resetVault = async () => {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  localStorage.removeItem(BACKUP_KEY_STORAGE_KEY);
+  clearLegacyVault();
+  clearUnlockAttempts();
+  clearSyncSettings();
+  await clearStores([CARD_STORE, REMINDER_STORE]);
+};
+
+const getVaultCredential = () => loadStoredVault()?.credential ?? DEFAULT_CREDENTIAL;
+
+const describeCredential = (credential: VaultCredential) => credential.type === 'pin' ? `${credential.length}-digit PIN` : 'passphrase';
+
+const isValidSecret = (secret: string, credential: VaultCredential) =>
+  credential.type === 'pin' ? /^\d+$/.test(secret) && secret.length === credential.length : secret.length >= MIN_PASSPHRASE_LENGTH;
+
+const wrapDataKey = async (raw: Uint8Array, pin: string, credential: VaultCredential, biometric?: BiometricUnlock) => {
+  const kdf = createKdfParams();
+  const wrappingKey = await deriveKeyFromSecret(pin, kdf);
+  const vault: StoredVault = { version: VAULT_VERSION, kdf, wrappedKey: await encryptBytes(wrappingKey, raw), credential, biometric };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+};
+
+// Null when the PIN is wrong (the wrapped key fails GCM authentication)
+const unwrapDataKey = async (vault: StoredVault, pin: string) => {
+  const wrappingKey = await deriveKeyFromSecret(pin, vault.kdf);
+  try {
+    return await decryptBytes(wrappingKey, vault.wrappedKey);
+  } catch (e) {
+    return null;
   }
+};
+
+const createVault = async (pin: string, cards: GiftCard[], credential: VaultCredential = DEFAULT_CREDENTIAL) => {
+  const raw = crypto.getRandomValues(new Uint8Array(32));
+  const key = await importDataKey(raw);
+  await replaceAllCards(key, cards);
+  await wrapDataKey(raw, pin, credential);
+  raw.fill(0);
+  return key;
+};
+
+// Only the data key is re-wrapped (biometric unlock keeps working); the cards stay encrypted as they are.
+// False when currentPin is wrong.
+const changeVaultPin = async (currentPin: string, newPin: string, credential: VaultCredential) => {
+  const vault = loadStoredVault();
+  if (!vault) return false;
+  const raw = await unwrapDataKey(vault, currentPin);
+  if (!raw) return false;
+  await wrapDataKey(raw, newPin, credential, vault.biometric);
+  raw.fill(0);
   return true;
 };
 
-const cleanAIResponse = (text: string | undefined) => {
-  if (!text) return "";
-  let cleaned = text.trim();
-  cleaned = cleaned.replace(/^```json/i, '').replace(/^```/, '').replace(/```$/, '').trim();
-  return cleaned;
+// Resolves to null when the PIN is wrong
+const unlockVault = async (pin: string): Promise<{ key: CryptoKey, cards: GiftCard[] } | null> => {
+  const vault = loadStoredVault();
+  if (!vault) return null;
+  const raw = await unwrapDataKey(vault, pin);
+  if (!raw) return null;
+  return openVault(vault, raw);
 };
 
-// --- Components ---
+// Shared by every unlock method once the raw data key has been recovered
+const openVault = async (vault: StoredVault, raw: Uint8Array) => {
+  const key = await importDataKey(raw);
+  raw.fill(0);
+  if (vault.payload) {
+    // One-time move of a v1 vault's card blob out of localStorage
+    const cards = await decryptJSON<GiftCard[]>(key, vault.payload);
+    await replaceAllCards(key, cards);
+    const { payload, ...upgraded } = vault;
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify({ ...upgraded, version: VAULT_VERSION }));
+    return { key, cards };
+  }
+  return { key, cards: await loadCards(key) };
+};
 
-const Header = ({ onInstall, onLogout, onOpenSettings, isBackingUp }: { onInstall: () => void, onLogout: () => void, onOpenSettings: () => void, isBackingUp: boolean }) => (
-  <header className="kfc-red text-white p-4 shadow-lg sticky top-0 z-50">
-    <div className="flex items-center justify-between max-w-md mx-auto">
-      <div className="flex items-center gap-2">
-        <Gift className="w-6 h-6" />
-        <h1 className="text-xl font-bold tracking-wide">MY KFC CARDS</h1>
-        {isBackingUp && (
-          <div className="flex items-center gap-1 bg-white/20 px-2 py-0.5 rounded-full animate-pulse">
-            <CloudUpload className="w-3 h-3" />
-            <span className="text-[10px] font-medium">Syncing</span>
-          </div>
-        )}
-      </div>
-      <div className="flex items-center gap-3">
-        <button 
-          onClick={onInstall}
-          className="hidden sm:flex items-center gap-1 bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
-        >
-          <Download className="w-3 h-3" /> <span className="hidden sm:inline">Install</span>
-        </button>
-        <button 
-          onClick={onOpenSettings}
-          className="flex items-center gap-1 bg-black/20 hover:bg-black/40 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
-          title="Settings"
-        >
-          <Settings className="w-3 h-3" />
-        </button>
-        <button 
-          onClick={onLogout}
-          className="flex items-center gap-1 bg-black/20 hover:bg-black/40 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
-          title="Lock App"
-        >
-          <LogOut className="w-3 h-3" />
-        </button>
-      </div>
-    </div>
-  </header>
-);
+// --- Biometric Unlock ---
+// A platform passkey (fingerprint, face, device PIN) can unlock the vault when its authenticator supports
+// the WebAuthn PRF extension: the PRF output for a fixed salt is a secret only that authenticator can
+// produce, and it wraps a second copy of the data key. Without PRF there is nothing to decrypt with, so
+// enrolment is refused and the PIN stays the only way in. The PIN is always kept as the fallback.
 
-const SettingsModal = ({ 
-  isOpen, 
-  onClose, 
-  cards, 
-  onImport,
-  fileHandle,
-  onSelectBackupFile,
-  backupStatus,
-  onVerifyPermission
-}: { 
-  isOpen: boolean, 
-  onClose: () => void,
-  cards: GiftCard[],
-  onImport: (cards: GiftCard[]) => void,
-  fileHandle: FileSystemFileHandle | null,
-  onSelectBackupFile: () => void,
-  backupStatus: { lastBackup: number | null, error: string | null, pendingPermission: boolean },
-  onVerifyPermission: () => void
-}) => {
-  const [apiKey, setApiKey] = useState('');
-  const [showKey, setShowKey] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+interface BiometricUnlock {
+  credentialId: string;
+  prfSalt: string;
+  wrappedKey: EncryptedBlob;
+}
 
-  useEffect(() => {
-    if (isOpen) {
-      setApiKey(localStorage.getItem('kfc_api_key') || '');
+// The PRF part of getClientExtensionResults(), which the DOM types in this TypeScript version leave out
+interface PRFExtensionResults {
+  prf?: { enabled?: boolean; results?: { first?: ArrayBuffer } };
+}
+
+const isBiometricAvailable = async () => {
+  if (!window.PublicKeyCredential) return false;
+  return PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable().catch(() => false);
+};
+
+const randomChallenge = () => crypto.getRandomValues(new Uint8Array(32));
+
+// Runs an assertion against the enrolled credential and returns the PRF output, or null if the
+// authenticator didn't produce one
+const evaluatePRF = async (credentialId: Uint8Array, salt: Uint8Array) => {
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: randomChallenge(),
+      allowCredentials: [{ type: 'public-key', id: credentialId }],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: salt } } } as AuthenticationExtensionsClientInputs
     }
-  }, [isOpen]);
+  }) as PublicKeyCredential | null;
+  const output = (assertion?.getClientExtensionResults() as PRFExtensionResults | undefined)?.prf?.results?.first;
+  return output ? new Uint8Array(output) : null;
+};
 
-  const handleSaveKey = () => {
-    localStorage.setItem('kfc_api_key', apiKey.trim());
-    alert("AI Key Saved!");
-  };
+// Needs the current PIN because the in-memory data key is not extractable
+const enrolBiometric = async (pin: string) => {
+  const vault = loadStoredVault();
+  if (!vault) throw new Error("No vault to protect.");
+  const raw = await unwrapDataKey(vault, pin);
+  if (!raw) throw new Error("Incorrect PIN.");
+  try {
+    const salt = crypto.getRandomValues(new Uint8Array(32));
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        rp: { name: 'KFC Gift Card Vault' },
+        user: { id: crypto.getRandomValues(new Uint8Array(16)), name: 'kfc-vault', displayName: 'Gift card vault' },
+        challenge: randomChallenge(),
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+        authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required', residentKey: 'preferred' },
+        extensions: { prf: { eval: { first: salt } } } as AuthenticationExtensionsClientInputs
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error("Enrolment was cancelled.");
+    const prf = (credential.getClientExtensionResults() as PRFExtensionResults).prf;
+    if (!prf?.enabled && !prf?.results) throw new Error("This device's authenticator doesn't support the PRF extension, so it can't unlock the vault.");
+    const credentialId = new Uint8Array(credential.rawId);
+    // Some authenticators only evaluate PRF during an assertion, not at creation
+    const output = prf.results?.first ? new Uint8Array(prf.results.first) : await evaluatePRF(credentialId, salt);
+    if (!output) throw new Error("The authenticator didn't return a PRF secret.");
+    const wrappingKey = await importDataKey(output);
+    output.fill(0);
+    const biometric: BiometricUnlock = { credentialId: toBase64(credentialId), prfSalt: toBase64(salt), wrappedKey: await encryptBytes(wrappingKey, raw) };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify({ ...vault, biometric }));
+  } finally {
+    raw.fill(0);
+  }
+};
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(cards, null, 2);
-    const blob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `kfc_cards_backup_${new Date().toISOString().slice(0,10)}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+const removeBiometric = () => {
+  const vault = loadStoredVault();
+  if (!vault) return;
+  const { biometric, ...rest } = vault;
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(rest));
+};
+
+const hasBiometricUnlock = () => !!loadStoredVault()?.biometric;
+
+// Null when the assertion produced no PRF secret or it doesn't open the key; throws if the prompt was cancelled
+const unlockVaultWithBiometric = async (): Promise<{ key: CryptoKey, cards: GiftCard[] } | null> => {
+  const vault = loadStoredVault();
+  if (!vault?.biometric) return null;
+  const output = await evaluatePRF(fromBase64(vault.biometric.credentialId), fromBase64(vault.biometric.prfSalt));
+  if (!output) return null;
+  const wrappingKey = await importDataKey(output);
+  output.fill(0);
+  let raw: Uint8Array;
+  try {
+    raw = await decryptBytes(wrappingKey, vault.biometric.wrappedKey);
+  } catch (e) {
+    return null;
+  }
+  return openVault(vault, raw);
+};
+
+// --- Unlock Protection ---
+// Failed unlocks are counted across reloads. After a few free tries each further failure locks the
+// screen for longer, and an optional limit erases the vault outright. This slows down guessing on the
+// device itself; an attacker with the raw storage still faces PBKDF2 for every guess.
+
+const UNLOCK_ATTEMPTS_KEY = 'kfc_unlock_attempts';
+const FREE_UNLOCK_ATTEMPTS = 4;
+const LOCKOUT_DELAYS_SEC = [30, 60, 5 * 60, 15 * 60, 60 * 60];
+
+interface UnlockAttempts {
+  failures: number;
+  lockedUntil: number;
+}
+
+const getUnlockAttempts = (): UnlockAttempts => {
+  const saved = localStorage.getItem(UNLOCK_ATTEMPTS_KEY);
+  return saved ? JSON.parse(saved) : { failures: 0, lockedUntil: 0 };
+};
+
+const recordFailedUnlock = (): UnlockAttempts => {
+  const failures = getUnlockAttempts().failures + 1;
+  const step = failures - FREE_UNLOCK_ATTEMPTS - 1;
+  const delay = step < 0 ? 0 : LOCKOUT_DELAYS_SEC[Math.min(step, LOCKOUT_DELAYS_SEC.length - 1)] * 1000;
+  const attempts = { failures, lockedUntil: Date.now() + delay };
+  localStorage.setItem(UNLOCK_ATTEMPTS_KEY, JSON.stringify(attempts));
+  return attempts;
+};
+
+const clearUnlockAttempts = () => localStorage.removeItem(UNLOCK_ATTEMPTS_KEY);
+
+// 0 = never erase
+const getWipeAfter = () => parseInt(localStorage.getItem('kfc_wipe_after') || '0', 10) || 0;
+
+const formatCountdown = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// --- Card Repository ---
+// One encrypted record per card, keyed by card id, so an edit only re-encrypts and rewrites that card.
+
+interface StoredCardRecord {
+  id: string;
+  payload: EncryptedBlob;
+}
+
+const loadCards = async (key: CryptoKey): Promise<GiftCard[]> => {
+  const db = await initDB();
+  const records = await new Promise<StoredCardRecord[]>((resolve, reject) => {
+    const request = db.transaction(CARD_STORE, 'readonly').objectStore(CARD_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(records.map(r => decryptJSON<GiftCard>(key, r.payload)));
+};
+
+// Encrypts first: an IndexedDB transaction auto-commits if it waits on anything else
+const writeCardChanges = async (key: CryptoKey, changed: GiftCard[], removedIds: string[], clearFirst = false) => {
+  const records: StoredCardRecord[] = await Promise.all(changed.map(async c => ({ id: c.id, payload: await encryptJSON(key, c) })));
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(CARD_STORE, 'readwrite');
+    const store = tx.objectStore(CARD_STORE);
+    if (clearFirst) store.clear();
+    records.forEach(r => store.put(r));
+    removedIds.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const replaceAllCards = (key: CryptoKey, cards: GiftCard[]) => writeCardChanges(key, cards, [], true);
+
+// --- Encrypted Backups ---
+// Backup files are a self-describing envelope (format header, KDF parameters, AES-GCM ciphertext)
+// so they can be restored on any device with only the backup password.
+const BACKUP_FORMAT = 'kfc-gc-vault-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_KEY_STORAGE_KEY = 'kfc_backup_key';
+
+interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: KdfParams;
+  cipher: 'AES-GCM';
+  createdAt: number;
+  payload: EncryptedBlob;
+}
+
+interface BackupKey {
+  kdf: KdfParams;
+  key: CryptoKey;
+}
+
+// The derived backup key is kept encrypted under the vault key so auto-backup can run without re-prompting
+const setBackupPassphrase = async (vaultKey: CryptoKey, passphrase: string, kdf: KdfParams = createKdfParams()): Promise<BackupKey> => {
+  const bits = await deriveSecretBits(passphrase, kdf);
+  localStorage.setItem(BACKUP_KEY_STORAGE_KEY, JSON.stringify({ kdf, key: await encryptBytes(vaultKey, bits) }));
+  const key = await importDataKey(bits);
+  bits.fill(0);
+  return { kdf, key };
+};
+
+const loadBackupKey = async (vaultKey: CryptoKey): Promise<BackupKey | null> => {
+  const saved = localStorage.getItem(BACKUP_KEY_STORAGE_KEY);
+  if (!saved) return null;
+  const { kdf, key } = JSON.parse(saved);
+  const bits = await decryptBytes(vaultKey, key);
+  const imported = await importDataKey(bits);
+  bits.fill(0);
+  return { kdf, key: imported };
+};
+
+const sealBackup = async (backupKey: BackupKey, cards: GiftCard[]) => {
+  const envelope: BackupEnvelope = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: backupKey.kdf,
+    cipher: 'AES-GCM',
+    createdAt: Date.now(),
+    payload: await encryptJSON(backupKey.key, cards)
   };
+  return JSON.stringify(envelope, null, 2);
+};
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+const isBackupEnvelope = (json: any): json is BackupEnvelope => !!json && typeof json === 'object' && json.format === BACKUP_FORMAT;
+
+// Opens a backup made with the current backup password without asking for it again
+const openBackupWithKey = async (envelope: BackupEnvelope, backupKey: BackupKey): Promise<GiftCard[] | null> => {
+  if (envelope.kdf.salt !== backupKey.kdf.salt) return null;
+  try {
+    return await decryptJSON<GiftCard[]>(backupKey.key, envelope.payload);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Resolves to null when the passphrase is wrong
+const openBackup = async (envelope: BackupEnvelope, passphrase: string): Promise<GiftCard[] | null> => {
+  if (envelope.version > BACKUP_VERSION) throw new Error("Backup was made by a newer version of the app");
+  const key = await deriveKeyFromSecret(passphrase, envelope.kdf);
+  try {
+    return await decryptJSON<GiftCard[]>(key, envelope.payload);
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Brands ---
+// Everything issuer-specific lives in this registry: how a card looks, how its balance is checked,
+// what its number and PIN look like and how to recognise it in pasted text.
+
+type BalanceCheck =
+  | { method: 'sms', number: string, body: string } // body may use {cardNumber} and {pin}
+  | { method: 'url', url: string }
+  | { method: 'manual' };
+
+// Patterns are checked against the normalised value (see normalizeCardNumber / normalizePin).
+// Set `checksum` only for issuers whose numbers are known to carry a check digit.
+interface FormatRule {
+  pattern: RegExp;
+  description: string;
+  checksum?: 'luhn';
+}
+
+interface Brand {
+  id: string;
+  name: string;
+  colors: { from: string, to: string };
+  balanceCheck: BalanceCheck;
+  website?: string;
+  cardNumber: FormatRule;
+  pin: FormatRule | null; // null for cards redeemed with the number alone
+  keywords?: RegExp;
+}
+
+const DEFAULT_BRAND_ID = 'kfc';
+const OTHER_BRAND_ID = 'other';
+
+const BRANDS: Brand[] = [
+  {
+    id: 'kfc',
+    name: 'KFC',
+    colors: { from: '#E4002B', to: '#960018' },
+    balanceCheck: { method: 'sms', number: '55757575', body: '{cardNumber}' },
+    website: 'https://gift.kfc.co.in/balance',
+    cardNumber: { pattern: /^\d{8,20}$/, description: '8-20 digits' },
+    pin: { pattern: /^\S{2,12}$/, description: '2-12 characters' },
+    keywords: /\bKFC\b/i
+  },
+  {
+    id: 'pizzahut',
+    name: 'Pizza Hut',
+    colors: { from: '#EE3124', to: '#7A1712' },
+    balanceCheck: { method: 'manual' },
+    cardNumber: { pattern: /^\d{16}$/, description: '16 digits' },
+    pin: { pattern: /^\d{6}$/, description: '6 digits' },
+    keywords: /pizza\s*hut/i
+  },
+  {
+    id: 'amazon',
+    name: 'Amazon Pay',
+    colors: { from: '#232F3E', to: '#131A22' },
+    balanceCheck: { method: 'url', url: 'https://www.amazon.in/gp/css/gc/balance' },
+    cardNumber: { pattern: /^[A-Z0-9]{14,15}$/, description: '14-15 letters and digits (claim code)' },
+    pin: null,
+    keywords: /amazon/i
+  },
+  {
+    id: 'starbucks',
+    name: 'Starbucks',
+    colors: { from: '#00704A', to: '#1E3932' },
+    balanceCheck: { method: 'manual' },
+    cardNumber: { pattern: /^\d{16}$/, description: '16 digits' },
+    pin: { pattern: /^\d{8}$/, description: '8 digits' },
+    keywords: /starbucks/i
+  },
+  {
+    id: OTHER_BRAND_ID,
+    name: 'Other',
+    colors: { from: '#4B5563', to: '#1F2937' },
+    balanceCheck: { method: 'manual' },
+    cardNumber: { pattern: /^[A-Z0-9]{6,24}$/i, description: '6-24 letters and digits' },
+    pin: { pattern: /^\S{0,12}$/, description: 'up to 12 characters' }
+  }
+];
+
+const getBrand = (id?: string) =>
+  BRANDS.find(b => b.id === (id || DEFAULT_BRAND_ID)) ?? BRANDS.find(b => b.id === OTHER_BRAND_ID)!;
+
+const getCardBrand = (card: { brand?: string }) => getBrand(card.brand);
+
+// First brand whose keywords appear in the text (an email, SMS or AI answer)
+const detectBrand = (text: string) => BRANDS.find(b => b.keywords?.test(text))?.id;
+
+// Accepts a brand id, its display name or anything its keywords match ("Pizza Hut India" -> pizzahut)
+const findBrand = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const lower = value.trim().toLowerCase();
+  return BRANDS.find(b => b.id === lower || b.name.toLowerCase() === lower)?.id ?? detectBrand(value);
+};
+
+const fillBalanceTemplate = (template: string, card: GiftCard) =>
+  template.replace(/\{cardNumber\}/g, card.cardNumber).replace(/\{pin\}/g, card.pin);
+
+const brandGradient = (brand: Brand) => `linear-gradient(to bottom right, ${brand.colors.from}, ${brand.colors.to})`;
+
+// --- Card Number Validation ---
+// Numbers arrive typed in groups, pasted with dashes or wrapped in stray characters by an AI answer.
+// Everything is compared and stored in one normalised form so those variants dedupe to one card.
+
+const normalizeCardNumber = (value: string) => value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+const normalizePin = (value: string) => value.replace(/\s+/g, '');
+
+// Key used for every duplicate check (manual add, AI extraction, import); older cards may still hold separators
+const cardKey = (card: { cardNumber: string }) => normalizeCardNumber(card.cardNumber);
+
+const passesLuhn = (digits: string) => {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) { d *= 2; if (d > 9) d -= 9; }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+interface CardFieldErrors {
+  cardNumber?: string;
+  pin?: string;
+  balance?: string;
+}
+
+// Well above any gift card on sale; a bigger figure is usually a card number or PIN in the wrong box
+const MAX_CARD_BALANCE = 100000;
+
+// Normalises the number and PIN and checks them (and the balance, when given) against the brand's rules
+const validateCardFields = (data: { cardNumber: string, pin: string, brand?: string, balance?: number }) => {
+  const brand = getBrand(data.brand);
+  const cardNumber = normalizeCardNumber(data.cardNumber);
+  const pin = brand.pin ? normalizePin(data.pin) : '';
+  const errors: CardFieldErrors = {};
+  if (!brand.cardNumber.pattern.test(cardNumber)) errors.cardNumber = `${brand.name} card numbers are ${brand.cardNumber.description}`;
+  else if (brand.cardNumber.checksum === 'luhn' && !passesLuhn(cardNumber)) errors.cardNumber = "Check digit doesn't match. Look for a typo.";
+  if (brand.pin && !brand.pin.pattern.test(pin)) errors.pin = pin ? `${brand.name} PINs are ${brand.pin.description}` : "PIN is required";
+  if (data.balance !== undefined && !(data.balance >= 0 && data.balance <= MAX_CARD_BALANCE)) errors.balance = `Balance must be between ₹0 and ₹${MAX_CARD_BALANCE.toLocaleString('en-IN')}`;
+  return { cardNumber, pin, errors };
+};
+
+const hasFieldErrors = (errors: CardFieldErrors) => !!(errors.cardNumber || errors.pin || errors.balance);
+
+// --- Expiry Dates ---
+// Expiry is stored as a plain YYYY-MM-DD date. It is always turned back into a *local* end-of-day
+// (never `new Date('YYYY-MM-DD')`, which is UTC midnight and can land on the previous day).
+
+const MONTHS: Record<string, number> = { jan:0, feb:1, mar:2, apr:3, may:4, jun:5, jul:6, aug:7, sep:8, oct:9, nov:10, dec:11 };
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toISODate = (year: number, month: number, day: number) => {
+  if (year < 100) year += 2000;
+  // Round-trip through UTC to reject impossible dates such as 31/02
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Reads the formats KFC SMS, e-gift emails, the AI prompt and older app versions produce.
+// Numeric dates are day-first, as written in India, unless only the month-first reading is a real
+// date (12/31/2025); ambiguous ones such as 03/04/2026 stay day-first.
+const parseExpiryInput = (value: string): string | null => {
+  const text = value.trim().replace(/(\d)(st|nd|rd|th)\b/gi, '$1').replace(/,/g, ' ').replace(/\s+/g, ' ');
+  let m: RegExpMatchArray | null;
+  if ((m = text.match(/^\d{4}-\d{2}-\d{2}T.+$/))) {
+    // Full timestamps are converted to the local calendar day
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : toISODate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+  if ((m = text.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/))) return toISODate(+m[1], +m[2], +m[3]);
+  if ((m = text.match(/^(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{2}|\d{4})$/))) return toISODate(+m[3], +m[2], +m[1]) ?? toISODate(+m[3], +m[1], +m[2]);
+  if ((m = text.match(/^(\d{1,2})[\/\-. ]+([A-Za-z]{3,9})\.?[\/\-. ]+(\d{2}|\d{4})$/))) {
+    const month = MONTHS[m[2].slice(0, 3).toLowerCase()];
+    return month === undefined ? null : toISODate(+m[3], month + 1, +m[1]);
+  }
+  if ((m = text.match(/^([A-Za-z]{3,9})\.? (\d{1,2}) (\d{2}|\d{4})$/))) {
+    const month = MONTHS[m[1].slice(0, 3).toLowerCase()];
+    return month === undefined ? null : toISODate(+m[3], month + 1, +m[2]);
+  }
+  return null;
+};
+
+const expiryEndOfDay = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999);
+};
+
+const getCardExpiry = (card: GiftCard) => card.expiryDate && ISO_DATE.test(card.expiryDate) ? expiryEndOfDay(card.expiryDate) : null;
+
+const formatExpiry = (iso: string) => expiryEndOfDay(iso).toLocaleDateString([], { day: '2-digit', month: 'short', year: 'numeric' });
+
+// One-time upgrade of free-text expiry strings; anything unreadable is kept aside for the user to re-enter
+const normalizeCardExpiry = (card: GiftCard): GiftCard => {
+  if (!card.expiryDate || ISO_DATE.test(card.expiryDate)) return card;
+  const iso = parseExpiryInput(card.expiryDate);
+  return iso ? { ...card, expiryDate: iso } : { ...card, expiryDate: undefined, expiryText: card.expiryDate };
+};
+
+// --- Rotating Snapshots ---
+// Auto-backup writes a new timestamped file to the chosen folder each time, then prunes old ones,
+// so one bad edit can't overwrite the only copy.
+
+interface SnapshotInfo {
+  name: string;
+  createdAt: number;
+  size: number;
+}
+
+interface RetentionPolicy {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+const DEFAULT_RETENTION: RetentionPolicy = { keepLast: 10, keepDaily: 7, keepWeekly: 4 };
+const SNAPSHOT_PREFIX = 'kfc_backup_';
+
+const getRetentionPolicy = (): RetentionPolicy => {
+  const saved = localStorage.getItem('kfc_backup_retention');
+  return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
+};
+
+const saveRetentionPolicy = (policy: RetentionPolicy) => localStorage.setItem('kfc_backup_retention', JSON.stringify(policy));
+
+// e.g. kfc_backup_2026-10-19T18-40-12-345Z.json (colons aren't allowed in file names everywhere)
+const snapshotFileName = (time: number) => `${SNAPSHOT_PREFIX}${new Date(time).toISOString().replace(/[:.]/g, '-')}.json`;
+
+const parseSnapshotTime = (name: string) => {
+  const m = name.match(/^kfc_backup_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/);
+  return m ? Date.parse(`${m[1]}T${m[2]}:${m[3]}:${m[4]}.${m[5]}Z`) : null;
+};
+
+// Directory handles are async-iterable in browsers, but the DOM types bundled with TypeScript don't say so
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle>;
+}
+
+const listSnapshots = async (dir: FileSystemDirectoryHandle): Promise<SnapshotInfo[]> => {
+  const snapshots: SnapshotInfo[] = [];
+  for await (const entry of (dir as IterableDirectoryHandle).values()) {
+    if (entry.kind !== 'file') continue;
+    const createdAt = parseSnapshotTime(entry.name);
+    if (createdAt === null) continue;
+    const file = await entry.getFile();
+    snapshots.push({ name: entry.name, createdAt, size: file.size });
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const startOfWeek = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.toDateString();
+};
+
+// The newest `keepLast` (always at least the one just written), plus the newest snapshot of each of the
+// most recent `keepDaily` days and `keepWeekly` weeks
+const selectSnapshotsToKeep = (snapshots: SnapshotInfo[], policy: RetentionPolicy) => {
+  const sorted = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  const keep = new Set(sorted.slice(0, Math.max(1, policy.keepLast)).map(s => s.name));
+  const keepNewestPerBucket = (bucketOf: (time: number) => string, limit: number) => {
+    const buckets = new Set<string>();
+    for (const snapshot of sorted) {
+      const bucket = bucketOf(snapshot.createdAt);
+      if (buckets.has(bucket)) continue;
+      if (buckets.size >= limit) break;
+      buckets.add(bucket);
+      keep.add(snapshot.name);
+    }
+  };
+  keepNewestPerBucket(time => new Date(time).toDateString(), policy.keepDaily);
+  keepNewestPerBucket(startOfWeek, policy.keepWeekly);
+  return keep;
+};
+
+const writeSnapshot = async (dir: FileSystemDirectoryHandle, contents: string, policy: RetentionPolicy) => {
+  const handle = await dir.getFileHandle(snapshotFileName(Date.now()), { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(contents);
+  await writable.close();
+  const snapshots = await listSnapshots(dir);
+  const keep = selectSnapshotsToKeep(snapshots, policy);
+  await Promise.all(snapshots.filter(s => !keep.has(s.name)).map(s => dir.removeEntry(s.name)));
+};
+
+const readSnapshot = async (dir: FileSystemDirectoryHandle, name: string) => {
+  const handle = await dir.getFileHandle(name);
+  return JSON.parse(await (await handle.getFile()).text());
+};
+
+// --- Remote Sync ---
+// Keeps several devices in step through one file on a WebDAV server or S3-compatible bucket the user
+// runs. The file is an ordinary encrypted backup envelope, so the server never sees card data and the
+// file restores like any other backup. Each device remembers what it last agreed with the server on
+// (the file's ETag and every card's lastUpdated), which is what lets a merge tell an edit from a delete.
+const SYNC_CONFIG_KEY = 'kfc_sync_config';
+const SYNC_STATE_KEY = 'kfc_sync_state';
+const DEFAULT_SYNC_OBJECT_KEY = 'gift-cards-vault.json';
+const SYNC_MAX_ATTEMPTS = 3;
+
+type SyncConfig =
+  | { provider: 'webdav', url: string, username: string, password: string }
+  | { provider: 's3', endpoint: string, region: string, bucket: string, key: string, accessKeyId: string, secretAccessKey: string };
+
+type SyncState = 'off' | 'syncing' | 'synced' | 'error' | 'needs-password';
+
+interface SyncStatus {
+  state: SyncState;
+  lastSync: number | null;
+  error: string | null;
+}
+
+// Both devices edited the card since they last synced; the newer edit is kept and the other is offered back
+interface SyncConflict {
+  id: string;
+  local: GiftCard;
+  remote: GiftCard;
+  kept: 'local' | 'remote';
+}
+
+interface SyncBaseline {
+  etag: string | null;
+  salt: string | null; // backup key the server copy was last written with
+  cards: Record<string, number>;
+}
+
+// `body` is null when the file hasn't changed since the ETag the caller already had
+interface RemoteFile {
+  etag: string | null;
+  body: string | null;
+}
+
+interface SyncRemote {
+  read: (knownEtag: string | null) => Promise<RemoteFile | null>;
+  // `expected` is the file this write replaces (null to create it). Resolves to null when someone else wrote first.
+  write: (body: string, expected: RemoteFile | null) => Promise<{ etag: string | null } | null>;
+}
+
+type SyncResult =
+  | { status: 'synced', cards: GiftCard[] | null, conflicts: SyncConflict[], baseline: SyncBaseline }
+  | { status: 'needs-password' };
+
+const EMPTY_SYNC_BASELINE: SyncBaseline = { etag: null, salt: null, cards: {} };
+
+// Credentials are kept encrypted under the vault key, like the backup key
+const loadSyncConfig = async (vaultKey: CryptoKey): Promise<SyncConfig | null> => {
+  const saved = localStorage.getItem(SYNC_CONFIG_KEY);
+  return saved ? decryptJSON<SyncConfig>(vaultKey, JSON.parse(saved)) : null;
+};
+
+// A new target starts from a clean baseline so nothing on it is mistaken for a deletion
+const saveSyncConfig = async (vaultKey: CryptoKey, config: SyncConfig | null) => {
+  localStorage.removeItem(SYNC_STATE_KEY);
+  if (config) localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(await encryptJSON(vaultKey, config)));
+  else localStorage.removeItem(SYNC_CONFIG_KEY);
+};
+
+const clearSyncSettings = () => {
+  localStorage.removeItem(SYNC_CONFIG_KEY);
+  localStorage.removeItem(SYNC_STATE_KEY);
+};
+
+const getSyncBaseline = (): SyncBaseline => {
+  const saved = localStorage.getItem(SYNC_STATE_KEY);
+  return saved ? { ...EMPTY_SYNC_BASELINE, ...JSON.parse(saved) } : EMPTY_SYNC_BASELINE;
+};
+
+const saveSyncBaseline = (baseline: SyncBaseline) => localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(baseline));
+
+const describeSyncTarget = (config: SyncConfig) => {
+  if (config.provider === 'webdav') return new URL(config.url).host;
+  return `${config.bucket} on ${new URL(config.endpoint).host}`;
+};
+
+const cardVersions = (cards: GiftCard[]) => Object.fromEntries(cards.map(c => [c.id, c.lastUpdated]));
+
+const sameVersions = (a: Record<string, number>, b: Record<string, number>) => {
+  const ids = Object.keys(a);
+  return ids.length === Object.keys(b).length && ids.every(id => a[id] === b[id]);
+};
+
+const sameCardState = (a: GiftCard, b: GiftCard) =>
+  a.balance === b.balance && a.pin === b.pin && a.cardNumber === b.cardNumber && a.expiryDate === b.expiryDate && a.brand === b.brand && a.deletedAt === b.deletedAt;
+
+const parseSyncFile = (body: string) => {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Per-card three-way merge against what was last synced. A card only one side changed takes that side's
+// version; a card both sides changed keeps the newer lastUpdated and is reported as a conflict. A card
+// missing on one side was deleted there if the other side hasn't touched it since the last sync.
+const mergeSyncedCards = (local: GiftCard[], remote: GiftCard[], base: Record<string, number>) => {
+  const localById = new Map(local.map(c => [c.id, c]));
+  const remoteById = new Map(remote.map(c => [c.id, c]));
+  const merged: GiftCard[] = [];
+  const conflicts: SyncConflict[] = [];
+  new Set([...localById.keys(), ...remoteById.keys()]).forEach(id => {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    const synced = base[id];
+    if (l && r) {
+      if (l.lastUpdated === r.lastUpdated || r.lastUpdated === synced) merged.push(l);
+      else if (l.lastUpdated === synced) merged.push(r);
+      else {
+        const kept = l.lastUpdated > r.lastUpdated ? 'local' : 'remote';
+        merged.push(kept === 'local' ? l : r);
+        if (!sameCardState(l, r)) conflicts.push({ id, local: l, remote: r, kept });
+      }
+      return;
+    }
+    const only = (l || r)!;
+    if (synced === undefined || only.lastUpdated !== synced) merged.push(only);
+  });
+
+  // The same card added separately on two devices has two ids. The newer copy survives under the smaller
+  // id, so every device settles on the same one.
+  const byKey = new Map<string, GiftCard>();
+  merged.forEach(card => {
+    const other = byKey.get(cardKey(card));
+    if (!other) { byKey.set(cardKey(card), card); return; }
+    const newer = card.lastUpdated > other.lastUpdated ? card : other;
+    byKey.set(cardKey(card), { ...newer, id: card.id < other.id ? card.id : other.id, history: mergeHistory(other.history, card.history) });
+  });
+  return { cards: [...byKey.values()], conflicts };
+};
+
+// One pull-merge-push round. `cards` is null in the result when the server had nothing new for this device.
+const syncWithRemote = async (remote: SyncRemote, backupKey: BackupKey | null, local: GiftCard[], baseline: SyncBaseline): Promise<SyncResult> => {
+  for (let attempt = 1; ; attempt++) {
+    const file = await remote.read(baseline.etag);
+    let merged = local;
+    let remoteCards: GiftCard[] | null = null;
+    let conflicts: SyncConflict[] = [];
+    if (file && file.body !== null) {
+      const envelope = parseSyncFile(file.body);
+      if (!isBackupEnvelope(envelope)) throw new Error("The sync file isn't a gift card backup.");
+      remoteCards = backupKey ? await openBackupWithKey(envelope, backupKey) : null;
+      if (!remoteCards) return { status: 'needs-password' };
+      ({ cards: merged, conflicts } = mergeSyncedCards(local, remoteCards, baseline.cards));
+    } else if (!file) {
+      // The file was removed from the server: start it again from this device rather than deleting everything
+      baseline = EMPTY_SYNC_BASELINE;
+    }
+
+    // Unchanged on the server: it still holds what the baseline describes
+    const serverVersions = remoteCards ? cardVersions(remoteCards) : file ? baseline.cards : null;
+    const needsWrite = !serverVersions || !sameVersions(cardVersions(merged), serverVersions) || baseline.salt !== backupKey?.kdf.salt;
+    if (!needsWrite) {
+      return { status: 'synced', cards: remoteCards && merged, conflicts, baseline: { ...baseline, etag: file!.etag, cards: cardVersions(merged) } };
+    }
+    if (!backupKey) throw new Error("Set a backup password to start syncing.");
+    const written = await remote.write(await sealBackup(backupKey, merged), file);
+    if (written) {
+      return { status: 'synced', cards: remoteCards && merged, conflicts, baseline: { etag: written.etag, salt: backupKey.kdf.salt, cards: cardVersions(merged) } };
+    }
+    if (attempt >= SYNC_MAX_ATTEMPTS) throw new Error("The sync file keeps changing. Try again in a moment.");
+  }
+};
+
+// The password the other device encrypted the sync file with. Adopting its salt lets both devices read
+// each other's writes. Resolves to null when the password is wrong.
+const adoptRemoteBackupPassword = async (remote: SyncRemote, vaultKey: CryptoKey, passphrase: string): Promise<BackupKey | null> => {
+  const file = await remote.read(null);
+  if (!file?.body) throw new Error("There's no sync file on the server yet.");
+  const envelope = parseSyncFile(file.body);
+  if (!isBackupEnvelope(envelope)) throw new Error("The sync file isn't a gift card backup.");
+  if (!(await openBackup(envelope, passphrase))) return null;
+  return setBackupPassphrase(vaultKey, passphrase, envelope.kdf);
+};
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const hmacSha256 = async (key: BufferSource, text: string) => {
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', hmacKey, new TextEncoder().encode(text));
+};
+
+// RFC 3986 encoding, which is what SigV4 expects in the canonical path
+const encodeS3Segment = (segment: string) => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Path-style addressing, which MinIO and most self-hosted stores need
+const s3ObjectUrl = (config: Extract<SyncConfig, { provider: 's3' }>) =>
+  `${config.endpoint.replace(/\/+$/, '')}/${encodeS3Segment(config.bucket)}/${(config.key || DEFAULT_SYNC_OBJECT_KEY).split('/').map(encodeS3Segment).join('/')}`;
+
+// AWS Signature Version 4 headers for a single-object request
+const signS3Request = async (config: Extract<SyncConfig, { provider: 's3' }>, method: string, url: string, body: string) => {
+  const { host, pathname } = new URL(url);
+  const payloadHash = await sha256Hex(body);
+  const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''); // e.g. 20261019T184012Z
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [method, pathname, '', `host:${host}`, `x-amz-content-sha256:${payloadHash}`, `x-amz-date:${amzDate}`, '', signedHeaders, payloadHash].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+  let signingKey: BufferSource = new TextEncoder().encode(`AWS4${config.secretAccessKey}`);
+  for (const part of scope.split('/')) signingKey = await hmacSha256(signingKey, part);
+  const signature = toHex(await hmacSha256(signingKey, stringToSign));
+  return {
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+};
+
+const syncRequest = async (url: string, init: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: 'no-store' });
+  } catch (err) {
+    // fetch only says "Failed to fetch", which is most often a CORS rule the server is missing
+    throw new Error("Can't reach the sync server. Check the address and that it allows requests from this app (CORS).");
+  }
+  if (response.status === 401 || response.status === 403) throw new Error("The sync server rejected the credentials.");
+  return response;
+};
+
+// WebDAV and S3 differ only in how requests are authorised; both support ETag preconditions
+const createSyncRemote = (config: SyncConfig): SyncRemote => {
+  const url = config.provider === 'webdav' ? config.url : s3ObjectUrl(config);
+  const authorize = async (method: string, body: string): Promise<Record<string, string>> => {
+    if (config.provider === 's3') return signS3Request(config, method, url, body);
+    return config.username ? { Authorization: `Basic ${toBase64(new TextEncoder().encode(`${config.username}:${config.password}`))}` } : {};
+  };
+  return {
+    read: async (knownEtag) => {
+      const headers = await authorize('GET', '');
+      const response = await syncRequest(url, { headers: knownEtag ? { ...headers, 'If-None-Match': knownEtag } : headers });
+      if (response.status === 404) return null;
+      if (response.status === 304) return { etag: knownEtag, body: null };
+      if (!response.ok) throw new Error(`Sync download failed: ${response.status} ${response.statusText}`);
+      return { etag: response.headers.get('ETag'), body: await response.text() };
+    },
+    write: async (body, expected) => {
+      // Without an ETag (the server doesn't expose one) the write can't be made conditional
+      const precondition: Record<string, string> = !expected ? { 'If-None-Match': '*' } : expected.etag ? { 'If-Match': expected.etag } : {};
+      const headers = { ...(await authorize('PUT', body)), ...precondition, 'Content-Type': 'application/json' };
+      const response = await syncRequest(url, { method: 'PUT', headers, body });
+      if (response.status === 412 || response.status === 409) return null;
+      if (!response.ok) throw new Error(`Sync upload failed: ${response.status} ${response.statusText}`);
+      return { etag: response.headers.get('ETag') };
+    }
+  };
+};
+
+// --- Import Validation ---
+
+const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const HISTORY_SOURCES: BalanceSource[] = ['added', 'manual', 'sms', 'import', 'payment'];
+
+const isValidHistoryEntry = (entry: any): entry is BalanceHistoryEntry =>
+  !!entry && typeof entry === 'object' &&
+  typeof entry.at === 'number' && Number.isFinite(entry.at) &&
+  typeof entry.previousBalance === 'number' && Number.isFinite(entry.previousBalance) &&
+  typeof entry.newBalance === 'number' && Number.isFinite(entry.newBalance) &&
+  HISTORY_SOURCES.includes(entry.source) &&
+  (entry.note === undefined || typeof entry.note === 'string');
+
+// Checks one row of an imported file against the GiftCard shape; returns the cleaned card or a reason
+const validateImportedCard = (raw: any): { card: GiftCard } | { error: string } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: "Not a card object" };
+  const brandId = raw.brand === undefined || raw.brand === null ? undefined : findBrand(raw.brand) ?? OTHER_BRAND_ID;
+  const brand = getBrand(brandId);
+  const rawNumber = typeof raw.cardNumber === 'number' ? String(raw.cardNumber) : raw.cardNumber;
+  if (typeof rawNumber !== 'string') return { error: "Missing card number" };
+  const rawPin = typeof raw.pin === 'number' ? String(raw.pin) : raw.pin ?? (brand.pin ? undefined : '');
+  if (typeof rawPin !== 'string') return { error: "Missing or malformed PIN" };
+  const { cardNumber, pin, errors } = validateCardFields({ cardNumber: rawNumber, pin: rawPin, brand: brandId });
+  if (errors.cardNumber) return { error: errors.cardNumber };
+  if (errors.pin) return { error: errors.pin };
+  if (typeof raw.balance !== 'number' || !Number.isFinite(raw.balance) || raw.balance < 0) return { error: "Balance must be a non-negative number" };
+  let expiryDate: string | undefined;
+  if (raw.expiryDate !== undefined && raw.expiryDate !== null && raw.expiryDate !== '') {
+    expiryDate = typeof raw.expiryDate === 'string' ? parseExpiryInput(raw.expiryDate) || undefined : undefined;
+    if (!expiryDate) return { error: `Unrecognised expiry date "${raw.expiryDate}"` };
+  }
+  const lastUpdated = parseTimestamp(raw.lastUpdated);
+  if (lastUpdated === null) return { error: "Missing or invalid lastUpdated" };
+  if (raw.history !== undefined && (!Array.isArray(raw.history) || !raw.history.every(isValidHistoryEntry))) return { error: "Malformed balance history" };
+  return {
+    card: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : Date.now().toString() + Math.random().toString(36).substring(2, 9),
+      cardNumber,
+      pin,
+      balance: raw.balance,
+      expiryDate,
+      lastUpdated,
+      history: raw.history,
+      brand: brandId,
+      ...(typeof raw.sharedWith?.name === 'string' && typeof raw.sharedWith.at === 'number' && { sharedWith: { name: raw.sharedWith.name, at: raw.sharedWith.at } })
+    }
+  };
+};
+
+const isSameCardData = (a: GiftCard, b: GiftCard) => getCardBrand(a).id === getCardBrand(b).id && a.pin === b.pin && a.balance === b.balance && (a.expiryDate || '') === (b.expiryDate || '');
+
+// Classifies every row of an import against the local vault without changing anything
+const buildImportPreview = (local: GiftCard[], rows: unknown[]): ImportPreview => {
+  const preview: ImportPreview = { added: [], updated: [], unchanged: [], rejected: [] };
+  const seen = new Set<string>();
+  rows.forEach((raw, index) => {
+    const result = validateImportedCard(raw);
+    if ('error' in result) { preview.rejected.push({ row: index + 1, reason: result.error }); return; }
+    const incoming = result.card;
+    if (seen.has(incoming.cardNumber)) { preview.rejected.push({ row: index + 1, reason: `Duplicate of card ${incoming.cardNumber} earlier in file` }); return; }
+    seen.add(incoming.cardNumber);
+    const existing = local.find(c => cardKey(c) === incoming.cardNumber);
+    if (!existing) preview.added.push(incoming);
+    // A card sitting in the trash is offered as a change so importing it can bring it back
+    else if (!isTrashed(existing) && isSameCardData(existing, incoming)) preview.unchanged.push(existing);
+    else preview.updated.push({ local: existing, incoming });
+  });
+  return preview;
+};
+
+// --- Balance History ---
+
+const createHistoryEntry = (previousBalance: number, newBalance: number, source: BalanceSource, note?: string): BalanceHistoryEntry => ({
+  at: Date.now(),
+  previousBalance,
+  newBalance,
+  source,
+  ...(note ? { note } : {})
+});
+
+// Union of two ledgers (e.g. local and imported), de-duplicated and in chronological order
+const mergeHistory = (a: BalanceHistoryEntry[] = [], b: BalanceHistoryEntry[] = []) => {
+  const byKey = new Map<string, BalanceHistoryEntry>();
+  [...a, ...b].forEach(e => byKey.set(`${e.at}:${e.previousBalance}:${e.newBalance}:${e.source}`, e));
+  return [...byKey.values()].sort((x, y) => x.at - y.at);
+};
+
+// Only decreases count as spending; top-ups and corrections upwards are ignored
+const getTotalSpent = (history: BalanceHistoryEntry[] = []) =>
+  history.reduce((total, e) => total + Math.max(0, e.previousBalance - e.newBalance), 0);
+
+const HISTORY_SOURCE_LABELS: Record<BalanceSource, string> = {
+  added: 'Card added',
+  manual: 'Manual edit',
+  sms: 'SMS balance check',
+  import: 'Imported',
+  payment: 'Payment'
+};
+
+// A new card object with the balance (and optionally expiry) changed and the change recorded in its history.
+// An empty newExpiry clears the expiry; undefined leaves it alone.
+const withBalanceUpdate = (card: GiftCard, newBalance: number, newExpiry?: string, source: BalanceSource = 'manual', note?: string): GiftCard => ({
+  ...card,
+  balance: newBalance,
+  lastUpdated: Date.now(),
+  expiryDate: newExpiry !== undefined ? newExpiry || undefined : card.expiryDate,
+  expiryText: newExpiry !== undefined ? undefined : card.expiryText,
+  history: [...(card.history || []), createHistoryEntry(card.balance, newBalance, source, note)]
+});
+
+// --- Split Payment ---
+// Suggests which cards to combine for a bill. Amounts are worked in paise so partial charges never
+// leave floating-point crumbs on a card.
+
+type PaymentStrategy = 'fewest' | 'expiring' | 'dust';
+
+interface PaymentPlanLine {
+  card: GiftCard;
+  amount: number;
+}
+
+interface PaymentPlan {
+  lines: PaymentPlanLine[];
+  shortfall: number; // what still has to be paid another way
+}
+
+const PAYMENT_STRATEGIES: { id: PaymentStrategy, label: string, description: string }[] = [
+  { id: 'fewest', label: 'Fewest cards', description: 'Largest balances first, so you hand over as few cards as possible.' },
+  { id: 'expiring', label: 'Expiring first', description: 'Drains the cards that expire soonest before they go to waste.' },
+  { id: 'dust', label: 'Least leftover', description: 'Combines cards that add up closest to the bill, leaving no small remainders behind.' }
+];
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+// The exact search keeps up to 2^n partial sums, so past this many cards (a few milliseconds of work)
+// it falls back to draining small balances first
+const MAX_EXACT_PLAN_CARDS = 14;
+
+// Subset of cards whose total is the smallest one that still covers the bill (fewer cards on ties).
+// Partial states are the distinct sums below the bill, which is only a bound when balances repeat.
+const closestCoveringSubset = (cards: GiftCard[], totalPaise: number) => {
+  let partial = new Map<number, number[]>([[0, []]]);
+  let best: number[] | null = null;
+  let bestSum = Infinity;
+  cards.forEach((card, index) => {
+    const next = new Map(partial);
+    partial.forEach((used, sum) => {
+      const newSum = sum + toPaise(card.balance);
+      const subset = [...used, index];
+      if (newSum >= totalPaise) {
+        if (newSum < bestSum || (newSum === bestSum && best && subset.length < best.length)) { best = subset; bestSum = newSum; }
+      } else {
+        const existing = next.get(newSum);
+        if (!existing || subset.length < existing.length) next.set(newSum, subset);
+      }
+    });
+    partial = next;
+  });
+  return best ? (best as number[]).map(i => cards[i]) : null;
+};
+
+const planPayment = (cards: GiftCard[], total: number, strategy: PaymentStrategy): PaymentPlan => {
+  const totalPaise = toPaise(total);
+  const funded = cards.filter(c => c.balance > 0);
+  const expiryTime = (c: GiftCard) => getCardExpiry(c)?.getTime() ?? Infinity;
+
+  // Cards in the order they are drained; only the last one used can be left with a balance
+  let order: GiftCard[];
+  if (strategy === 'expiring') order = [...funded].sort((a, b) => expiryTime(a) - expiryTime(b) || a.balance - b.balance);
+  else if (strategy === 'dust') {
+    const subset = funded.length <= MAX_EXACT_PLAN_CARDS ? closestCoveringSubset(funded, totalPaise) : null;
+    order = [...(subset ?? funded)].sort((a, b) => a.balance - b.balance);
+  }
+  else order = [...funded].sort((a, b) => b.balance - a.balance);
+
+  const lines: PaymentPlanLine[] = [];
+  let remaining = totalPaise;
+  for (const card of order) {
+    if (remaining <= 0) break;
+    const amount = Math.min(toPaise(card.balance), remaining);
+    lines.push({ card, amount: amount / 100 });
+    remaining -= amount;
+  }
+  return { lines, shortfall: remaining / 100 };
+};
+
+// --- Barcodes ---
+// Code128 and QR encoders for the quick-pay screen. Both run entirely on the device: card numbers are
+// never sent to a barcode service.
+
+// Bar/space widths for Code128 values 0-105 (103-105 are the A/B/C start codes)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232'
+];
+const CODE128_STOP = '2331112';
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+
+// Bar widths in modules, alternating bar/space and starting with a bar. Even-length digit strings use
+// code set C (two digits per symbol); anything else uses code set B (printable ASCII).
+const encodeCode128 = (text: string): number[] => {
+  const useC = /^(\d\d)+$/.test(text);
+  if (!useC && !/^[\x20-\x7e]+$/.test(text)) throw new Error("Code128 can only encode printable ASCII");
+  const values = useC
+    ? (text.match(/\d\d/g) || []).map(Number)
+    : [...text].map(ch => ch.charCodeAt(0) - 32);
+  const start = useC ? CODE128_START_C : CODE128_START_B;
+  const checksum = values.reduce((sum, v, i) => sum + v * (i + 1), start) % 103;
+  return [start, ...values, checksum].map(v => CODE128_PATTERNS[v]).concat(CODE128_STOP).join('').split('').map(Number);
+};
+
+// QR codes in byte mode at error-correction level M, versions 1-40 (up to 2331 bytes). Follows the
+// construction in ISO/IEC 18004; the tables are indexed by version.
+const QR_ECC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const QR_ECC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+const QR_MAX_VERSION = 40;
+
+const qrRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const qrDataCodewords = (version: number) =>
+  Math.floor(qrRawDataModules(version) / 8) - QR_ECC_CODEWORDS_PER_BLOCK[version] * QR_ECC_BLOCKS[version];
+
+const qrAlignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2; // 32 is the one exception to the spacing rule
+  const result = [6];
+  for (let pos = version * 4 + 17 - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// GF(256) arithmetic with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// Splits the data into blocks, appends each block's ECC and interleaves them
+const qrAddEcc = (data: number[], version: number) => {
+  const numBlocks = QR_ECC_BLOCKS[version];
+  const eccLen = QR_ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(qrRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(eccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte added to short blocks
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const QR_MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x, y) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Lower is better: long runs, 2x2 blocks, finder look-alikes and unbalanced dark/light all add penalties
+const qrPenalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [...modules, ...modules.map((_, x) => modules.map(row => row[x]))];
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) run++;
+      else { if (run >= 5) score += run - 2; run = 1; }
+    }
+    const bits = line.map(m => (m ? '1' : '0')).join('');
+    score += ((bits.match(/(?=10111010000|00001011101)/g) || []).length) * 40;
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+// Returns the module grid (true = dark), without the quiet zone
+const encodeQR = (text: string): boolean[][] => {
+  const bytes = [...new TextEncoder().encode(text)];
+  let version = 1;
+  const bitsNeeded = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  while (version <= QR_MAX_VERSION && bitsNeeded(version) > qrDataCodewords(version) * 8) version++;
+  if (version > QR_MAX_VERSION) throw new Error("Too much data for a QR code");
+
+  // Data bits: byte mode indicator, length, data, terminator, then alternating pad bytes
+  const capacity = qrDataCodewords(version) * 8;
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => { for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => appendBits(b, 8));
+  appendBits(0, Math.min(4, capacity - bits.length));
+  appendBits(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) appendBits(pad, 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  const codewords = qrAddEcc(data, version);
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => { modules[y][x] = dark; isFunction[y][x] = true; };
+
+  // Timing patterns, finders (with separators), alignment patterns
+  for (let i = 0; i < size; i++) { setFunction(6, i, i % 2 === 0); setFunction(i, 6, i % 2 === 0); }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx, y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+  const align = qrAlignmentPositions(version);
+  align.forEach((ay, i) => align.forEach((ax, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) for (let dx = -2; dx <= 2; dx++) setFunction(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+  }));
+
+  const drawFormatBits = (mask: number) => {
+    const value = (0b00 << 3) | mask; // 00 = level M
+    let rem = value;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const format = ((value << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((format >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) === 1;
+      const a = size - 11 + i % 3, b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Codewords zig-zag up and down two-module columns from the bottom right
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) for (let x = 0; x < size; x++) if (!isFunction[y][x] && QR_MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+  };
+  let bestMask = 0;
+  let bestScore = Infinity;
+  QR_MASKS.forEach((_, mask) => {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const score = qrPenalty(modules);
+    if (score < bestScore) { bestScore = score; bestMask = mask; }
+    applyMask(mask); // XOR again to undo
+  });
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+};
+
+// --- Device Transfer ---
+// Moves the vault to another phone as a looping sequence of numbered QR codes. The cards travel as a
+// backup envelope sealed with a one-time transfer code that is shown on screen but never encoded in
+// the QR codes, so a recording of the animation alone can't be opened.
+const TRANSFER_PREFIX = 'KFCX1';
+const TRANSFER_CHUNK_SIZE = 150; // with the frame header this stays within a version 10 QR code
+const TRANSFER_FRAME_MS = 250;
+const TRANSFER_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I to misread
+
+// Frames are "KFCX1:<transfer id>:<index>:<total>:<digest>:<chunk>". The digest is a SHA-256 prefix of
+// the whole payload, checked once every chunk has arrived.
+interface TransferFrame {
+  id: string;
+  index: number;
+  total: number;
+  digest: string;
+  data: string;
+}
+
+// 12 characters, 60 bits; shown as XXXX-XXXX-XXXX
+const createTransferCode = () => {
+  const chars = [...crypto.getRandomValues(new Uint8Array(12))].map(b => TRANSFER_CODE_ALPHABET[b % TRANSFER_CODE_ALPHABET.length]);
+  return normalizeTransferCode(chars.join(''));
+};
+
+const normalizeTransferCode = (code: string) => (code.toUpperCase().replace(/[^A-Z0-9]/g, '').match(/.{1,4}/g) || []).join('-');
+
+const transferDigest = async (payload: string) => (await sha256Hex(payload)).slice(0, 16);
+
+const sealTransfer = async (cards: GiftCard[], code: string) => {
+  const kdf = createKdfParams();
+  const envelope = await sealBackup({ kdf, key: await deriveKeyFromSecret(code, kdf) }, cards);
+  const payload = JSON.stringify(JSON.parse(envelope)); // without the pretty-printing, for fewer frames
+  const digest = await transferDigest(payload);
+  const id = toHex(crypto.getRandomValues(new Uint8Array(3)).buffer);
+  const total = Math.ceil(payload.length / TRANSFER_CHUNK_SIZE);
+  return Array.from({ length: total }, (_, i) => [TRANSFER_PREFIX, id, i, total, digest, payload.slice(i * TRANSFER_CHUNK_SIZE, (i + 1) * TRANSFER_CHUNK_SIZE)].join(':'));
+};
+
+const parseTransferFrame = (text: string): TransferFrame | null => {
+  const [prefix, id, index, total, digest, ...rest] = text.split(':');
+  if (prefix !== TRANSFER_PREFIX || rest.length === 0) return null;
+  const frame = { id, index: Number(index), total: Number(total), digest, data: rest.join(':') };
+  return Number.isInteger(frame.index) && Number.isInteger(frame.total) && frame.index >= 0 && frame.index < frame.total ? frame : null;
+};
+
+// Resolves to null when the reassembled payload doesn't match the sender's digest
+const assembleTransfer = async (chunks: Map<number, string>, total: number, digest: string): Promise<BackupEnvelope | null> => {
+  const payload = Array.from({ length: total }, (_, i) => chunks.get(i) ?? '').join('');
+  if ((await transferDigest(payload)) !== digest) return null;
+  const envelope = JSON.parse(payload);
+  return isBackupEnvelope(envelope) ? envelope : null;
+};
+
+// --- Card Sharing ---
+// Hands one card to someone else as a link, QR code or file. The card is sealed with a one-time code
+// the sender passes on another way (say it, or send it in a different app). Links carry the card in the
+// URL fragment, which browsers never send to the server.
+const SHARE_FORMAT = 'kfc-gc-card-share';
+const SHARE_VERSION = 1;
+
+interface CardShare {
+  format: typeof SHARE_FORMAT;
+  version: number;
+  kdf: KdfParams;
+  payload: EncryptedBlob;
+}
+
+const sealCardShare = async (card: GiftCard, code: string): Promise<CardShare> => {
+  const kdf = createKdfParams();
+  const data: NewCardData = { cardNumber: card.cardNumber, pin: card.pin, balance: card.balance, expiryDate: card.expiryDate, brand: getCardBrand(card).id };
+  return { format: SHARE_FORMAT, version: SHARE_VERSION, kdf, payload: await encryptJSON(await deriveKeyFromSecret(code, kdf), data) };
+};
+
+const isCardShare = (json: any): json is CardShare => !!json && typeof json === 'object' && json.format === SHARE_FORMAT;
+
+// Resolves to null when the code is wrong
+const openCardShare = async (share: CardShare, code: string): Promise<NewCardData | null> => {
+  if (share.version > SHARE_VERSION) throw new Error("This card was shared from a newer version of the app");
+  const key = await deriveKeyFromSecret(normalizeTransferCode(code), share.kdf);
+  try {
+    const data = await decryptJSON<NewCardData>(key, share.payload);
+    return { cardNumber: String(data.cardNumber), pin: String(data.pin ?? ''), balance: Number(data.balance) || 0, expiryDate: data.expiryDate, brand: data.brand };
+  } catch (e) {
+    return null;
+  }
+};
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (str: string) => fromBase64(str.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - str.length % 4) % 4));
+
+const cardShareLink = (share: CardShare) =>
+  `${location.origin}${location.pathname}#share=${toBase64Url(new TextEncoder().encode(JSON.stringify(share)))}`;
+
+const readCardShareFromHash = (hash: string): CardShare | null => {
+  const match = hash.match(/^#share=([A-Za-z0-9_-]+)$/);
+  if (!match) return null;
+  try {
+    const json = JSON.parse(new TextDecoder().decode(fromBase64Url(match[1])));
+    return isCardShare(json) ? json : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Offline SMS Parser ---
+// Balance-check replies (e.g. KFC's 55757575) follow a handful of fixed layouts, so they are parsed locally first.
+// The card context only goes to the AI service if the user has opted in and no template matched.
+
+interface ParsedBalanceSMS {
+  template: string;
+  balance: number;
+  expiryDate?: string;
+  cardSuffix?: string;
+}
+
+const SMS_CARD = String.raw`card(?:\s*(?:no\.?|number|ending(?:\s*with|\s*in)?|[:#]))*\s*(?:[Xx*•]+|\d+?)?(?<card>\d{4})\b`;
+const SMS_AMOUNT = String.raw`bal(?:ance)?\b[^\d₹]{0,40}?(?:Rs\.?|INR|₹)?\s*(?<balance>\d[\d,]*(?:\.\d{1,2})?)`;
+const SMS_EXPIRY = String.raw`(?:valid\s*(?:till|upto|up\s*to|until)|expir(?:y|es|ing)(?:\s*date)?|exp\.?)\s*(?:is|on)?\s*:?\s*(?<expiry>\d{4}-\d{2}-\d{2}|\d{1,2}[\/\-\s](?:\d{1,2}|[A-Za-z]{3,9})[\/\-\s]\d{2,4})`;
+
+// Most specific first; the real-world replies each template was written against are in index.test.ts
+const BALANCE_SMS_TEMPLATES: { name: string, pattern: RegExp }[] = [
+  {
+    name: 'card-then-balance',
+    pattern: new RegExp(`${SMS_CARD}[\\s\\S]*?${SMS_AMOUNT}(?:[\\s\\S]*?${SMS_EXPIRY})?`, 'i')
+  },
+  {
+    name: 'balance-then-card',
+    pattern: new RegExp(`${SMS_AMOUNT}[\\s\\S]*?${SMS_CARD}(?:[\\s\\S]*?${SMS_EXPIRY})?`, 'i')
+  },
+  {
+    name: 'balance-only',
+    pattern: new RegExp(`${SMS_AMOUNT}(?:[\\s\\S]*?${SMS_EXPIRY})?`, 'i')
+  }
+];
+
+// OTP messages for the balance check mention the balance too, and the code would be read as the amount
+const OTP_SMS = /\b(?:OTP|one[\s-]?time\s*(?:password|code)|verification\s*code)\b/i;
+
+const parseBalanceSMS = (text: string): ParsedBalanceSMS | null => {
+  const message = text.replace(/\s+/g, ' ').trim();
+  if (OTP_SMS.test(message)) return null;
+  for (const template of BALANCE_SMS_TEMPLATES) {
+    const groups = message.match(template.pattern)?.groups;
+    if (!groups?.balance) continue;
+    const balance = parseFloat(groups.balance.replace(/,/g, ''));
+    if (!Number.isFinite(balance)) continue;
+    return {
+      template: template.name,
+      balance,
+      expiryDate: groups.expiry ? parseExpiryInput(groups.expiry) || undefined : undefined,
+      cardSuffix: groups.card
+    };
+  }
+  return null;
+};
+
+// --- Offline Card Extractor ---
+// Recognises the common e-gift email / voucher layouts (Pine Labs, Qwikcilver and similar)
+// so pasted emails can be imported without an AI key.
+
+const LABELLED_CARD = /(?:e-?gift\s*)?card\s*(?:no\.?|number|#)\s*[:\-]?\s*(\d[\d \-]{6,26}\d)/gi;
+// PINs are read at the same 2-12 length `validateCardFields` accepts, so a short or long PIN isn't dropped here
+const LABELLED_PIN = /(?:card\s*)?pin\s*(?:no\.?|number|code)?\s*[:\-]?\s*(\d{2,12})\b/i;
+const LABELLED_AMOUNT = /(?:value|amount|denomination|balance|worth)\s*(?:of)?\s*[:\-]?\s*(?:Rs\.?|INR|₹)\s*(\d[\d,]*(?:\.\d{1,2})?)|(?:Rs\.?|INR|₹)\s*(\d[\d,]*(?:\.\d{1,2})?)/i;
+// e.g. "1234567890123456 | 123456 | 500" or "1234 5678 9012 3456   123456   Rs.500"
+const TABULAR_ROW = /^\D*?(?:\d{1,3}\s*[|,;\t.)]\s*)?(\d(?:[\d \-]{10,26})\d)\s*[|,;\t ]\s*(\d{2,12})(?:\s*[|,;\t ]\s*(?:Rs\.?|INR|₹)?\s*(\d[\d,]*(?:\.\d{1,2})?))?\s*\D*$/;
+
+const stripCardSeparators = (value: string) => value.replace(/[\s\-]/g, '');
+
+const parseAmount = (value?: string) => value ? parseFloat(value.replace(/,/g, '')) || 0 : 0;
+
+const extractCardsFromText = (text: string): { cards: ExtractedCard[], leftover: string } => {
+  const cards: ExtractedCard[] = [];
+  let leftover = text;
+
+  // 1. Labelled blocks: everything from one "Card No" label up to the next one belongs to that card
+  const labels = [...text.matchAll(LABELLED_CARD)];
+  labels.forEach((match, i) => {
+    const start = match.index!;
+    const end = i + 1 < labels.length ? labels[i + 1].index! : Math.min(text.length, start + 300);
+    const block = text.slice(start, end);
+    const pin = block.slice(match[0].length).match(LABELLED_PIN);
+    if (!pin) return;
+    const amount = block.match(LABELLED_AMOUNT);
+    cards.push({
+      cardNumber: stripCardSeparators(match[1]),
+      pin: pin[1],
+      balance: parseAmount(amount?.[1] || amount?.[2]),
+      confidence: amount ? 0.95 : 0.8
+    });
+    leftover = leftover.replace(block, '');
+  });
+
+  // 2. Tabular rows, one card per line
+  leftover = leftover.split('\n').filter(line => {
+    const row = line.match(TABULAR_ROW);
+    if (!row) return true;
+    const cardNumber = stripCardSeparators(row[1]);
+    if (cardNumber.length < 12 || cards.some(c => c.cardNumber === cardNumber)) return true;
+    cards.push({ cardNumber, pin: row[2], balance: parseAmount(row[3]), confidence: row[3] ? 0.7 : 0.6 });
+    return false;
+  }).join('\n');
+
+  return { cards, leftover: leftover.trim() };
+};
+
+// True when unparsed text still contains something shaped like a card number
+const hasUnparsedCardData = (leftover: string) => /\d(?:[ \-]?\d){11,}/.test(leftover);
+
+// --- Image Recognition ---
+// Photos and screenshots are read on the device with Tesseract. The engine, its WASM core and the
+// English model are fetched from jsDelivr on first use and cached by the service worker after that
+// (until the next deploy clears the cache), so the Import Image tab tells people the first scan needs a network.
+
+// OCR mistakes are common on photos, so cards read from an image are always flagged for a closer look
+const OCR_CONFIDENCE_FACTOR = 0.85;
+// Large enough for a card number to stay legible, small enough to keep AI uploads quick
+const AI_IMAGE_MAX_SIDE = 1600;
+
+interface AIImage {
+  mimeType: string;
+  data: string; // base64, without the data: prefix
+}
+
+const recognizeImageText = async (image: Blob, onProgress?: (progress: number) => void) => {
+  const worker = await createWorker('eng', undefined, {
+    logger: message => { if (message.status === 'recognizing text') onProgress?.(message.progress); }
+  });
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+};
+
+// Tesseract tends to read 0 as "O" and 1 as "l" or "I" inside long digit runs; only runs that are
+// mostly digits already are touched, so ordinary words next to numbers survive
+const cleanRecognizedText = (text: string) =>
+  text.replace(/\d(?:[ \-]?[\dOoIl]){6,}[ \-]?\d/g, run =>
+    (run.match(/\d/g)!.length >= 10 ? run.replace(/[Oo]/g, '0').replace(/[Il]/g, '1') : run));
+
+// Re-encoded as a downscaled JPEG so phone photos don't turn into multi-megabyte requests
+const prepareImageForAI = async (image: Blob): Promise<AIImage> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, AI_IMAGE_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+// --- Incoming Text ---
+// Text shared to the installed app (the manifest's share_target) or found on the clipboard is sent to
+// the flow it belongs to: extraction for e-gift emails, the balance update for a reply about a known card.
+
+const CLIPBOARD_DETECT_KEY = 'kfc_clipboard_detect';
+// Must match share_target.params in manifest.webmanifest
+const SHARE_TARGET_PARAMS = ['share_title', 'share_text', 'share_url'];
+
+type IncomingTextRoute =
+  | { kind: 'cards', text: string }
+  | { kind: 'balance', text: string, card: GiftCard }
+  | { kind: 'none', reason: string };
+
+const isClipboardDetectEnabled = () => localStorage.getItem(CLIPBOARD_DETECT_KEY) === 'true';
+
+// Apps fill the fields differently (Gmail puts the subject in the title, some SMS apps use url), so all are kept
+const readSharedText = (search: string): string | null => {
+  const params = new URLSearchParams(search);
+  if (!SHARE_TARGET_PARAMS.some(name => params.has(name))) return null;
+  return SHARE_TARGET_PARAMS.map(name => params.get(name)?.trim()).filter(Boolean).join('\n');
+};
+
+const routeIncomingText = (text: string, cards: GiftCard[]): IncomingTextRoute => {
+  const known = cards.filter(c => !isTrashed(c));
+  const { cards: found } = extractCardsFromText(text);
+  if (found.length > 0) {
+    return found.some(f => !known.some(c => cardKey(c) === normalizeCardNumber(f.cardNumber)))
+      ? { kind: 'cards', text }
+      : { kind: 'none', reason: 'These cards are already in your wallet.' };
+  }
+  const reply = parseBalanceSMS(text);
+  if (reply) {
+    const matches = reply.cardSuffix ? known.filter(c => cardKey(c).endsWith(reply.cardSuffix!)) : [];
+    if (matches.length === 1) return { kind: 'balance', text, card: matches[0] };
+    if (reply.cardSuffix && matches.length === 0) return { kind: 'none', reason: `This balance reply is for a card ending ${reply.cardSuffix}, which isn't in your wallet.` };
+    return { kind: 'none', reason: "This balance reply doesn't say which of your cards it is for. Use Check Balance on the card and paste it there." };
+  }
+  // Something card-shaped in a layout the offline extractor doesn't know; the AI extractor may still read it
+  if (hasUnparsedCardData(text)) return { kind: 'cards', text };
+  return { kind: 'none', reason: 'No gift card details found in the shared text.' };
+};
+
+// Only reads where access is already granted (Chromium); elsewhere every read would show a paste prompt
+const readClipboardSilently = async (): Promise<string | null> => {
+  try {
+    const permission = await navigator.permissions.query({ name: 'clipboard-read' as PermissionName });
+    if (permission.state !== 'granted') return null;
+    return await navigator.clipboard.readText();
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Expiry Reminders ---
+
+const DEFAULT_REMINDER_DAYS = [30, 7, 1];
+const REMINDER_SYNC_TAG = 'kfc-expiry-reminders';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getReminderDays = (): number[] => {
+  const saved = localStorage.getItem('kfc_reminder_days');
+  return saved ? JSON.parse(saved) : DEFAULT_REMINDER_DAYS;
+};
+
+// Accepts "30, 7, 1" style input; returns unique whole days, largest first
+const parseReminderDays = (input: string) =>
+  [...new Set(input.split(/[,\s]+/).map(d => parseInt(d, 10)).filter(d => d > 0 && d <= 365))].sort((a, b) => b - a);
+
+// Only cards that still hold money are worth a reminder
+const getExpiringCards = (cards: GiftCard[], withinDays: number) => {
+  const now = Date.now();
+  return cards
+    .filter(c => c.balance > 0)
+    .map(card => ({ card, expiry: getCardExpiry(card) }))
+    .filter((e): e is { card: GiftCard, expiry: Date } => !!e.expiry && e.expiry.getTime() > now && e.expiry.getTime() - now <= withinDays * DAY_MS)
+    .sort((a, b) => a.expiry.getTime() - b.expiry.getTime());
+};
+
+const daysUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / DAY_MS));
+
+// Reminders go out at 9am, `days` before the card's expiry day
+const buildReminderSchedule = (cards: GiftCard[], days: number[]): ExpiryReminder[] =>
+  cards.flatMap(card => {
+    const expiry = getCardExpiry(card);
+    if (card.balance <= 0 || !expiry) return [];
+    return days.map(d => {
+      const at = new Date(expiry);
+      at.setDate(at.getDate() - d);
+      at.setHours(9, 0, 0, 0);
+      return {
+        tag: `${card.id}:${d}:${card.expiryDate}`,
+        cardId: card.id,
+        at: at.getTime(),
+        expiresAt: expiry.getTime(),
+        title: d === 1 ? "A gift card expires tomorrow" : `A gift card expires in ${d} days`,
+        body: "Unlock the app to see which card and how much is left on it."
+      };
+    });
+  });
+
+// Asks the service worker to fire any due reminders now, and to keep checking in the background where supported
+const requestReminderCheck = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration: ServiceWorkerRegistration & { periodicSync?: { register(tag: string, opts: { minInterval: number }): Promise<void> } } = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'CHECK_REMINDERS' });
+  try {
+    await registration.periodicSync?.register(REMINDER_SYNC_TAG, { minInterval: 12 * 60 * 60 * 1000 });
+  } catch (e) {
+    // Periodic sync needs an installed PWA; check-on-open still covers everyone else
+  }
+};
+
+// --- Auto-Lock ---
+// Locking drops the vault key and every decrypted card from memory; the PIN is needed to get them back.
+
+interface LockSettings {
+  idleMinutes: number; // 0 = never lock for inactivity
+  lockOnHide: boolean; // lock as soon as the app is backgrounded or closed
+  revealSeconds: number; // 0 = shown card details stay visible
+}
+
+const DEFAULT_LOCK_SETTINGS: LockSettings = { idleMinutes: 5, lockOnHide: true, revealSeconds: 10 };
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+
+const getLockSettings = (): LockSettings => {
+  const saved = localStorage.getItem('kfc_lock_settings');
+  return saved ? { ...DEFAULT_LOCK_SETTINGS, ...JSON.parse(saved) } : DEFAULT_LOCK_SETTINGS;
+};
+
+const saveLockSettings = (settings: LockSettings) => {
+  localStorage.setItem('kfc_lock_settings', JSON.stringify(settings));
+};
+
+// Some flows leave the app on purpose and expect the user back (sending the balance SMS, taking a
+// photo, the share sheet). Lock-on-hide waits this long for them before it locks.
+const HANDOFF_GRACE_MS = 5 * 60 * 1000;
+
+const createHandoffTracker = () => {
+  let until = 0;
+  let away = false;
+  return {
+    // Called just before the app hands off to another one
+    begin: (now = Date.now()) => { until = now + HANDOFF_GRACE_MS; },
+    // On hide: how long lock-on-hide should wait, 0 to lock right away
+    leave: (now = Date.now()) => { away = now < until; return away ? until - now : 0; },
+    // On return: true if the trip out ran past the grace period. Either way the hand-off is over.
+    comeBack: (now = Date.now()) => { const late = away && now >= until; away = false; until = 0; return late; }
+  };
+};
+
+// --- Trash & Undo ---
+// Deleting a card only stamps it with deletedAt; it stays in the vault (but out of totals, reminders
+// and backups) until restored or purged after the configured number of days.
+
+const DEFAULT_TRASH_DAYS = 30;
+const UNDO_LIMIT = 20;
+
+interface UndoEntry {
+  label: string;
+  cards: GiftCard[];
+}
+
+const getTrashDays = (): number => {
+  const saved = parseInt(localStorage.getItem('kfc_trash_days') || '', 10);
+  return saved > 0 ? saved : DEFAULT_TRASH_DAYS;
+};
+
+const isTrashed = (card: GiftCard) => card.deletedAt !== undefined;
+
+const trashPurgeDate = (card: GiftCard, days: number) => new Date((card.deletedAt ?? 0) + days * DAY_MS);
+
+const purgeExpiredTrash = (cards: GiftCard[], days: number) => {
+  const now = Date.now();
+  return cards.filter(c => !isTrashed(c) || trashPurgeDate(c, days).getTime() > now);
+};
+
+// --- AI Providers ---
+// Card and balance extraction go through a small provider interface so the app can talk to Gemini
+// or to any OpenAI-compatible endpoint (e.g. a self-hosted Ollama or llama.cpp server).
+
+type AIProviderName = 'gemini' | 'openai';
+
+interface AIConfig {
+  provider: AIProviderName;
+  model: string;
+  baseUrl: string;
+}
+
+interface BalanceExtraction {
+  found: boolean;
+  balance?: number;
+  expiryDate?: string | null;
+}
+
+interface AIProvider {
+  extractCards(text: string): Promise<NewCardData[]>;
+  extractCardsFromImage(image: AIImage): Promise<NewCardData[]>;
+  extractBalance(text: string): Promise<BalanceExtraction>;
+}
+
+const AI_DEFAULTS: Record<AIProviderName, AIConfig> = {
+  gemini: { provider: 'gemini', model: 'gemini-3-flash-preview', baseUrl: '' },
+  openai: { provider: 'openai', model: 'llama3.2', baseUrl: 'http://localhost:11434/v1' }
+};
+
+const getApiKey = () => {
+  return localStorage.getItem('kfc_api_key') || '';
+};
+
+const getAIConfig = (): AIConfig => {
+  const saved = localStorage.getItem('kfc_ai_config');
+  return saved ? { ...AI_DEFAULTS.gemini, ...JSON.parse(saved) } : AI_DEFAULTS.gemini;
+};
+
+const saveAIConfig = (config: AIConfig) => localStorage.setItem('kfc_ai_config', JSON.stringify(config));
+
+// AI is only used for SMS parsing when the user explicitly allows it
+const isAIFallbackEnabled = () => localStorage.getItem('kfc_ai_fallback') === 'true';
+
+const cardExtractionPrompt = (text: string) =>
+  `Analyze text, extract gift cards (${BRANDS.map(b => b.name).join(', ')}). Return JSON array of objects: {brand, cardNumber, pin, amount}; pin is "" if the card has none. Ignore credit cards. Input: ${text}`;
+
+const cardImagePrompt = () =>
+  `Read the attached photo or screenshot, extract gift cards (${BRANDS.map(b => b.name).join(', ')}). Return JSON array of objects: {brand, cardNumber, pin, amount}; pin is "" if the card has none or it is still under the scratch-off panel. Ignore credit cards.`;
+
+const balanceExtractionPrompt = (text: string) =>
+  `Analyze SMS related to a Gift Card. Extract BALANCE and EXPIRY. Text: "${text}". Return JSON: { "found": boolean, "balance": number, "expiryDate": string | null (yyyy-MM-dd) }`;
+
+const toNewCards = (extracted: any[]): NewCardData[] =>
+  extracted.map((c: any) => ({ cardNumber: String(c.cardNumber), pin: String(c.pin ?? ''), balance: c.amount || 0, brand: findBrand(c.brand) }));
+
+const GEMINI_CARDS_SCHEMA = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { brand: { type: Type.STRING }, cardNumber: { type: Type.STRING }, pin: { type: Type.STRING }, amount: { type: Type.NUMBER } }, required: ["cardNumber"] } };
+
+const createGeminiProvider = (config: AIConfig, apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async extractCards(text) {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: cardExtractionPrompt(text),
+        config: { responseMimeType: "application/json", responseSchema: GEMINI_CARDS_SCHEMA },
+      });
+      return toNewCards(JSON.parse(cleanAIResponse(response.text) || '[]'));
+    },
+    async extractCardsFromImage(image) {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: [{ inlineData: image }, { text: cardImagePrompt() }],
+        config: { responseMimeType: "application/json", responseSchema: GEMINI_CARDS_SCHEMA },
+      });
+      return toNewCards(JSON.parse(cleanAIResponse(response.text) || '[]'));
+    },
+    async extractBalance(text) {
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: balanceExtractionPrompt(text),
+        config: { responseMimeType: "application/json", responseSchema: { type: Type.OBJECT, properties: { found: { type: Type.BOOLEAN }, balance: { type: Type.NUMBER }, expiryDate: { type: Type.STRING, nullable: true } }, required: ["found"] } }
+      });
+      return JSON.parse(cleanAIResponse(response.text) || '{}');
+    }
+  };
+};
+
+const createOpenAICompatibleProvider = (config: AIConfig, apiKey: string): AIProvider => {
+  // Images go in as OpenAI-style content parts, which vision models on Ollama and llama.cpp accept too
+  const complete = async (prompt: string, image?: AIImage) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: 'You extract structured data. Reply with JSON only, no prose.' },
+          { role: 'user', content: image ? [{ type: 'text', text: prompt }, { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }] : prompt }
+        ]
+      })
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = await response.json();
+    return JSON.parse(cleanAIResponse(data.choices?.[0]?.message?.content) || '{}');
+  };
+  return {
+    async extractCards(text) {
+      // JSON mode only allows a top-level object, so the array is wrapped
+      const result = await complete(`${cardExtractionPrompt(text)}\nWrap the array as { "cards": [...] }.`);
+      return toNewCards(Array.isArray(result) ? result : result.cards || []);
+    },
+    async extractCardsFromImage(image) {
+      const result = await complete(`${cardImagePrompt()}\nWrap the array as { "cards": [...] }.`, image);
+      return toNewCards(Array.isArray(result) ? result : result.cards || []);
+    },
+    extractBalance: (text) => complete(balanceExtractionPrompt(text))
+  };
+};
+
+const getAIProvider = (): AIProvider => {
+  const config = getAIConfig();
+  return config.provider === 'openai'
+    ? createOpenAICompatibleProvider(config, getApiKey())
+    : createGeminiProvider(config, getApiKey());
+};
+
+const checkAIConfigured = (openSettings: () => void) => {
+  const config = getAIConfig();
+  const missing = config.provider === 'openai' ? !config.baseUrl : !getApiKey();
+  if (missing) {
+    const what = config.provider === 'openai' ? 'the server URL for your AI endpoint' : 'your Gemini API Key';
+    if(confirm(`⚠️ AI Not Configured\n\nYou need to add ${what} in Settings to use this feature.\n\nOpen Settings now?`)) {
+      openSettings();
+    }
+    return false;
+  }
+  return true;
+};
+
+const cleanAIResponse = (text: string | undefined) => {
+  if (!text) return "";
+  let cleaned = text.trim();
+  cleaned = cleaned.replace(/^```json/i, '').replace(/^```/, '').replace(/```$/, '').trim();
+  return cleaned;
+};
+
+// --- Components ---
+
+// Problems that need the user open Settings, where the sync section explains them
+// `syncState` is the remote sync only; a backup to the local folder has its own badge
+const Header = ({ onInstall, onLogout, onOpenSettings, syncState, conflictCount, isBackingUp }: { onInstall: () => void, onLogout: () => void, onOpenSettings: () => void, syncState: SyncState, conflictCount: number, isBackingUp: boolean }) => (
+  <header className="kfc-red text-white p-4 shadow-lg sticky top-0 z-50">
+    <div className="flex items-center justify-between max-w-md mx-auto">
+      <div className="flex items-center gap-2">
+        <Gift className="w-6 h-6" />
+        <h1 className="text-xl font-bold tracking-wide">MY GIFT CARDS</h1>
+        {syncState === 'syncing' && (
+          <div className="flex items-center gap-1 bg-white/20 px-2 py-0.5 rounded-full animate-pulse">
+            <CloudUpload className="w-3 h-3" />
+            <span className="text-[10px] font-medium">Syncing</span>
+          </div>
+        )}
+        {isBackingUp && (
+          <div className="flex items-center gap-1 bg-white/20 px-2 py-0.5 rounded-full animate-pulse">
+            <HardDrive className="w-3 h-3" />
+            <span className="text-[10px] font-medium">Backing up</span>
+          </div>
+        )}
+        {syncState === 'synced' && conflictCount === 0 && <span title="Synced"><Cloud className="w-4 h-4 opacity-75" /></span>}
+        {(syncState === 'error' || syncState === 'needs-password') && (
+          <button onClick={onOpenSettings} className="flex items-center gap-1 bg-black/30 px-2 py-0.5 rounded-full">
+            <CloudOff className="w-3 h-3" />
+            <span className="text-[10px] font-medium">{syncState === 'error' ? 'Sync failed' : 'Sync locked'}</span>
+          </button>
+        )}
+        {conflictCount > 0 && (
+          <button onClick={onOpenSettings} className="flex items-center gap-1 bg-amber-400 text-amber-950 px-2 py-0.5 rounded-full">
+            <AlertCircle className="w-3 h-3" />
+            <span className="text-[10px] font-medium">{conflictCount} conflict{conflictCount === 1 ? '' : 's'}</span>
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <button 
+          onClick={onInstall}
+          className="hidden sm:flex items-center gap-1 bg-white/20 hover:bg-white/30 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
+        >
+          <Download className="w-3 h-3" /> <span className="hidden sm:inline">Install</span>
+        </button>
+        <button 
+          onClick={onOpenSettings}
+          className="flex items-center gap-1 bg-black/20 hover:bg-black/40 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
+          title="Settings"
+        >
+          <Settings className="w-3 h-3" />
+        </button>
+        <button 
+          onClick={onLogout}
+          className="flex items-center gap-1 bg-black/20 hover:bg-black/40 px-3 py-1.5 rounded-full text-xs font-medium transition-colors backdrop-blur-sm"
+          title="Lock App"
+        >
+          <LogOut className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  </header>
+);
+
+const ImportPreviewModal = ({ preview, onCancel, onConfirm }: { preview: ImportPreview, onCancel: () => void, onConfirm: (cards: GiftCard[]) => void }) => {
+  // Default each conflict to whichever side was updated more recently
+  const [useIncoming, setUseIncoming] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(preview.updated.map(u => [u.incoming.cardNumber, u.incoming.lastUpdated >= u.local.lastUpdated]))
+  );
+
+  const selected = [...preview.added, ...preview.updated.filter(u => useIncoming[u.incoming.cardNumber]).map(u => u.incoming)];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[80] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><FileJson className="w-5 h-5 text-orange-600" /> Review Import</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-5 space-y-5 overflow-y-auto text-sm">
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div className="bg-green-50 rounded-lg p-2"><p className="text-lg font-bold text-green-700">{preview.added.length}</p><p className="text-[10px] text-gray-500 uppercase">New</p></div>
+            <div className="bg-blue-50 rounded-lg p-2"><p className="text-lg font-bold text-blue-700">{preview.updated.length}</p><p className="text-[10px] text-gray-500 uppercase">Changed</p></div>
+            <div className="bg-gray-50 rounded-lg p-2"><p className="text-lg font-bold text-gray-700">{preview.unchanged.length}</p><p className="text-[10px] text-gray-500 uppercase">Same</p></div>
+            <div className="bg-red-50 rounded-lg p-2"><p className="text-lg font-bold text-red-700">{preview.rejected.length}</p><p className="text-[10px] text-gray-500 uppercase">Rejected</p></div>
+          </div>
+
+          {preview.added.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-bold text-gray-700 uppercase">New Cards</p>
+              {preview.added.map(c => (
+                <div key={c.cardNumber} className="flex justify-between text-xs bg-green-50 px-3 py-2 rounded"><span className="font-mono">•••• {c.cardNumber.slice(-4)}</span><span className="font-bold">₹{c.balance.toFixed(2)}</span></div>
+              ))}
+            </div>
+          )}
+
+          {preview.updated.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-bold text-gray-700 uppercase">Changed Cards</p>
+              {preview.updated.map(({ local, incoming }) => {
+                const pickIncoming = useIncoming[incoming.cardNumber];
+                return (
+                  <div key={incoming.cardNumber} className="bg-blue-50 px-3 py-2 rounded space-y-2">
+                    <div className="flex justify-between text-xs">
+                      <span className="font-mono">•••• {incoming.cardNumber.slice(-4)}</span>
+                      <span>₹{local.balance.toFixed(2)} <ArrowRight className="w-3 h-3 inline" /> <strong>₹{incoming.balance.toFixed(2)}</strong></span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1 text-[10px] font-medium">
+                      <button onClick={() => setUseIncoming(prev => ({ ...prev, [incoming.cardNumber]: false }))} className={`py-1 rounded ${!pickIncoming ? 'bg-gray-800 text-white' : 'bg-white text-gray-500'}`}>Keep Local</button>
+                      <button onClick={() => setUseIncoming(prev => ({ ...prev, [incoming.cardNumber]: true }))} className={`py-1 rounded ${pickIncoming ? 'bg-blue-600 text-white' : 'bg-white text-gray-500'}`}>Use Incoming</button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {preview.unchanged.length > 0 && (
+            <p className="text-xs text-gray-500">{preview.unchanged.length} card(s) already match your vault and will be skipped.</p>
+          )}
+
+          {preview.rejected.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-bold text-red-700 uppercase">Rejected Rows</p>
+              {preview.rejected.map(r => (
+                <div key={r.row} className="flex gap-2 text-xs text-red-700 bg-red-50 px-3 py-2 rounded"><AlertCircle className="w-3 h-3 shrink-0 mt-0.5" /><span>Row {r.row}: {r.reason}</span></div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t flex gap-3 shrink-0">
+          <button onClick={onCancel} className="px-4 py-2 text-gray-500 font-medium hover:bg-gray-100 rounded-lg text-sm">Cancel</button>
+          <button onClick={() => onConfirm(selected)} disabled={selected.length === 0} className="flex-1 bg-red-600 text-white py-2 rounded-lg font-bold hover:bg-red-700 transition-colors disabled:opacity-50 text-sm">Import {selected.length} Card(s)</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SnapshotBrowser = ({ dir, backupKey, onMerge, onReplace }: { dir: FileSystemDirectoryHandle, backupKey: BackupKey | null, onMerge: (rows: unknown[]) => void, onReplace: (rows: unknown[]) => void }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [selected, setSelected] = useState<{ info: SnapshotInfo, cards: GiftCard[] } | null>(null);
+  const [locked, setLocked] = useState<{ info: SnapshotInfo, envelope: BackupEnvelope } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    listSnapshots(dir).then(setSnapshots).catch(err => setError(`Could not read folder: ${err.message}`));
+  }, [dir]);
+
+  const openSnapshot = async (info: SnapshotInfo) => {
+    setError(''); setLocked(null); setSelected(null);
+    try {
+      const json = await readSnapshot(dir, info.name);
+      if (isBackupEnvelope(json)) {
+        const cards = backupKey ? await openBackupWithKey(json, backupKey) : null;
+        if (cards) setSelected({ info, cards });
+        else { setPassphrase(''); setLocked({ info, envelope: json }); }
+      } else if (Array.isArray(json)) {
+        setSelected({ info, cards: json });
+      } else {
+        setError("Not a card backup.");
+      }
+    } catch (err: any) {
+      setError(`Could not open snapshot: ${err.message}`);
+    }
+  };
+
+  // Snapshots from before the backup password was changed need the old password
+  const unlockSnapshot = async () => {
+    if (!locked) return;
+    const cards = await openBackup(locked.envelope, passphrase);
+    if (!cards) { setError("Incorrect backup password."); return; }
+    setLocked(null);
+    setSelected({ info: locked.info, cards });
+  };
+
+  const handleReplace = () => {
+    if (!selected) return;
+    if (confirm(`Replace ALL cards in the app with the ${selected.cards.length} card(s) from this snapshot?\n\nCards added since then will be removed.`)) onReplace(selected.cards);
+  };
+
+  if (error && !snapshots) return <p className="text-[10px] text-red-600">{error}</p>;
+  if (!snapshots) return <p className="text-[10px] text-gray-500 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Loading snapshots...</p>;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] text-gray-500 font-bold uppercase">Snapshots ({snapshots.length})</p>
+      {snapshots.length === 0 && <p className="text-[10px] text-gray-500">No snapshots yet. One is written shortly after every change.</p>}
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {snapshots.map(s => (
+          <button key={s.name} onClick={() => openSnapshot(s)} className={`w-full flex justify-between items-center text-xs px-2 py-1.5 rounded border ${selected?.info.name === s.name || locked?.info.name === s.name ? 'bg-blue-600 text-white border-blue-600' : 'bg-white border-blue-100 hover:bg-blue-50'}`}>
+            <span>{new Date(s.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+            <span className="opacity-60">{(s.size / 1024).toFixed(1)} KB</span>
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-[10px] text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {error}</p>}
+      {locked && (
+        <div className="bg-white p-2 rounded border border-blue-100 space-y-2">
+          <p className="text-[10px] text-gray-600">This snapshot uses a different backup password.</p>
+          <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className="w-full p-2 border border-gray-300 rounded text-xs" placeholder="Backup password" />
+          <button onClick={unlockSnapshot} disabled={!passphrase} className="w-full bg-gray-800 text-white py-1.5 rounded text-xs font-medium disabled:opacity-50">Open Snapshot</button>
+        </div>
+      )}
+      {selected && (
+        <div className="bg-white p-2 rounded border border-blue-100 space-y-2">
+          <div className="flex justify-between text-xs font-bold text-gray-700">
+            <span>{selected.cards.length} card(s)</span>
+            <span>₹{selected.cards.reduce((sum, c) => sum + (Number(c.balance) || 0), 0).toFixed(2)}</span>
+          </div>
+          <div className="max-h-32 overflow-y-auto space-y-0.5">
+            {selected.cards.map((c, i) => (
+              <div key={i} className="flex justify-between text-[10px] text-gray-600"><span className="font-mono">•••• {String(c.cardNumber).slice(-4)}</span><span>₹{(Number(c.balance) || 0).toFixed(2)}</span></div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => onMerge(selected.cards)} className="bg-blue-600 text-white py-1.5 rounded text-xs font-medium hover:bg-blue-700">Review & Merge</button>
+            <button onClick={handleReplace} className="bg-red-600 text-white py-1.5 rounded text-xs font-medium hover:bg-red-700 flex items-center justify-center gap-1"><ArchiveRestore className="w-3 h-3" /> Replace All</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TransferSendModal = ({ cards, onClose }: { cards: GiftCard[], onClose: () => void }) => {
+  const [code] = useState(createTransferCode);
+  const [frames, setFrames] = useState<string[] | null>(null);
+  const [index, setIndex] = useState(0);
+  useScreenWakeLock();
+
+  useEffect(() => {
+    sealTransfer(cards, code).then(setFrames).catch(err => {
+      alert(`Could not prepare the transfer: ${err.message}`);
+      onClose();
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!frames) return;
+    const interval = setInterval(() => setIndex(i => (i + 1) % frames.length), TRANSFER_FRAME_MS);
+    return () => clearInterval(interval);
+  }, [frames]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl overflow-hidden shadow-2xl">
+        <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><QrCode className="w-5 h-5 text-red-600" /> Send to Another Device</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-4 space-y-4 text-center">
+          {frames ? (
+            <>
+              <QRCodeImage value={frames[index]} className="w-64 h-64 mx-auto" />
+              <p className="text-[10px] text-gray-400">Frame {index + 1} of {frames.length} · {cards.length} card(s)</p>
+            </>
+          ) : (
+            <div className="w-64 h-64 mx-auto flex items-center justify-center"><Loader2 className="w-8 h-8 animate-spin text-gray-300" /></div>
+          )}
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">On the other device, open Settings → Receive and scan this screen. Then enter:</p>
+            <p className="font-mono text-2xl font-bold tracking-widest text-gray-800 mt-1">{code}</p>
+          </div>
+          <p className="text-[10px] text-gray-400">The code only works for this transfer. Don't send it along with a photo of the codes.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TransferReceiveModal = ({ onClose, onReceive }: { onClose: () => void, onReceive: (rows: unknown[]) => void }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const transfer = useRef<{ id: string, total: number, digest: string, chunks: Map<number, string> } | null>(null);
+  const isAssembling = useRef(false);
+  const [progress, setProgress] = useState<{ received: number, total: number } | null>(null);
+  const [envelope, setEnvelope] = useState<BackupEnvelope | null>(null);
+  const [code, setCode] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFrame = async (text: string) => {
+    const frame = parseTransferFrame(text);
+    if (!frame || isAssembling.current) return;
+    // A different transfer (the sender restarted) starts over
+    if (!transfer.current || transfer.current.id !== frame.id) transfer.current = { id: frame.id, total: frame.total, digest: frame.digest, chunks: new Map() };
+    const current = transfer.current;
+    if (current.chunks.has(frame.index)) return;
+    current.chunks.set(frame.index, frame.data);
+    setProgress({ received: current.chunks.size, total: current.total });
+    if (current.chunks.size < current.total) return;
+
+    isAssembling.current = true;
+    const result = await assembleTransfer(current.chunks, current.total, current.digest).catch(() => null);
+    isAssembling.current = false;
+    if (result) { setError(''); setEnvelope(result); return; }
+    transfer.current = null;
+    setProgress(null);
+    setError("The received data didn't pass its checksum. Keep scanning to try again.");
+  };
+
+  // Scans about ten frames a second until the whole transfer has arrived, then releases the camera
+  useEffect(() => {
+    if (envelope) return;
+    let stream: MediaStream | null = null;
+    let stopped = false;
+    let frameRequest = 0;
+    let lastScan = 0;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    const scan = (time: number) => {
+      if (stopped) return;
+      frameRequest = requestAnimationFrame(scan);
+      const video = videoRef.current;
+      if (!video || !context || video.readyState < video.HAVE_CURRENT_DATA || time - lastScan < 100) return;
+      lastScan = time;
+      const scale = Math.min(1, 640 / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const result = jsQR(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height, { inversionAttempts: 'dontInvert' });
+      if (result) handleFrame(result.data);
+    };
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        if (stopped) { media.getTracks().forEach(t => t.stop()); return; }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => {});
+        }
+        frameRequest = requestAnimationFrame(scan);
+      })
+      .catch(err => setError(err.name === 'NotAllowedError' ? "Camera access was denied. Allow it in the browser settings to receive cards." : `Camera unavailable: ${err.message}`));
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameRequest);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [envelope]);
+
+  const handleOpen = async () => {
+    if (!envelope) return;
+    setIsOpening(true);
+    setError('');
+    try {
+      const cards = await openBackup(envelope, normalizeTransferCode(code));
+      if (!cards) { setError("That transfer code doesn't match."); return; }
+      onReceive(cards);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl overflow-hidden shadow-2xl">
+        <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><ScanLine className="w-5 h-5 text-red-600" /> Receive from Another Device</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-4 space-y-3">
+          {envelope ? (
+            <>
+              <p className="text-sm text-gray-700 flex items-center gap-2"><CheckCircle className="w-4 h-4 text-green-600" /> Everything received. Enter the code shown on the other device.</p>
+              <input type="text" value={code} onChange={e => setCode(normalizeTransferCode(e.target.value))} onKeyDown={e => e.key === 'Enter' && handleOpen()} className="w-full p-3 border border-gray-300 rounded-lg font-mono text-lg tracking-widest text-center uppercase focus:ring-2 focus:ring-red-500 outline-none" placeholder="XXXX-XXXX-XXXX" autoCapitalize="characters" autoComplete="off" autoFocus />
+              <button onClick={handleOpen} disabled={isOpening || code.length < 14} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2">{isOpening && <Loader2 className="w-4 h-4 animate-spin" />} Review Cards</button>
+            </>
+          ) : (
+            <>
+              <div className="relative bg-black rounded-lg overflow-hidden aspect-square">
+                <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                <div className="absolute inset-8 border-2 border-white/70 rounded-lg pointer-events-none"></div>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500 transition-all" style={{ width: `${progress ? (progress.received / progress.total) * 100 : 0}%` }}></div>
+              </div>
+              <p className="text-xs text-gray-500 text-center">{progress ? `Received ${progress.received} of ${progress.total} codes. Missed ones come round again.` : "Point the camera at the codes on the other device."}</p>
+            </>
+          )}
+          {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3 shrink-0" /> {error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SyncSettings = ({ config, status, conflicts, onSave, onSyncNow, onUnlock, onResolve }: {
+  config: SyncConfig | null,
+  status: SyncStatus,
+  conflicts: SyncConflict[],
+  onSave: (config: SyncConfig | null) => Promise<void>,
+  onSyncNow: () => void,
+  onUnlock: (passphrase: string) => Promise<boolean>,
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => void
+}) => {
+  const [form, setForm] = useState({ provider: 'webdav' as SyncConfig['provider'], url: '', username: '', password: '', endpoint: '', region: 'us-east-1', bucket: '', key: DEFAULT_SYNC_OBJECT_KEY, accessKeyId: '', secretAccessKey: '' });
+  const [isEditing, setIsEditing] = useState(!config);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (config) setForm(f => ({ ...f, ...config }));
+    setIsEditing(!config);
+  }, [config]);
+
+  const update = (field: keyof typeof form, value: string) => setForm({ ...form, [field]: value });
+
+  const handleSave = async () => {
+    setError('');
+    const next: SyncConfig = form.provider === 'webdav'
+      ? { provider: 'webdav', url: form.url.trim(), username: form.username.trim(), password: form.password }
+      : { provider: 's3', endpoint: form.endpoint.trim(), region: form.region.trim() || 'us-east-1', bucket: form.bucket.trim(), key: form.key.trim() || DEFAULT_SYNC_OBJECT_KEY, accessKeyId: form.accessKeyId.trim(), secretAccessKey: form.secretAccessKey };
+    try {
+      new URL(next.provider === 'webdav' ? next.url : next.endpoint);
+    } catch (e) {
+      setError("Enter a full address, starting with https:// (or http:// for a local test server).");
+      return;
+    }
+    if (next.provider === 's3' && (!next.bucket || !next.accessKeyId || !next.secretAccessKey)) { setError("Bucket and both keys are required."); return; }
+    await onSave(next);
+  };
+
+  const handleDisconnect = async () => {
+    if (confirm("Stop syncing this device? Cards stay on this device and on the server.")) await onSave(null);
+  };
+
+  const handleUnlock = async () => {
+    setError('');
+    try {
+      if (await onUnlock(passphrase)) setPassphrase('');
+      else setError("Incorrect backup password.");
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const inputClass = "w-full p-2 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-red-500 outline-none";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 mb-1">
+        <div className="bg-sky-100 p-1.5 rounded-lg">
+          <Cloud className="w-4 h-4 text-sky-600" />
+        </div>
+        <div>
+          <label className="text-sm font-bold text-gray-700 block">Sync Between Devices</label>
+          <span className="text-[10px] text-gray-500 block leading-tight">Keeps an encrypted copy on your own WebDAV server or S3-compatible bucket. Uses your backup password.</span>
+        </div>
+      </div>
+
+      {config && !isEditing && (
+        <div className="bg-sky-50 p-3 rounded-lg space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-bold text-gray-700 truncate" title={describeSyncTarget(config)}>{describeSyncTarget(config)}</span>
+            <span className="text-[10px] text-gray-500 uppercase">{config.provider === 'webdav' ? 'WebDAV' : 'S3'}</span>
+          </div>
+          {status.state === 'syncing' && <p className="text-[10px] text-sky-700 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Syncing...</p>}
+          {status.state === 'synced' && status.lastSync && <p className="text-[10px] text-green-700 flex items-center gap-1"><CheckCircle className="w-3 h-3" /> Synced {new Date(status.lastSync).toLocaleTimeString()}</p>}
+          {status.state === 'error' && <p className="text-[10px] text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3 shrink-0" /> {status.error}</p>}
+          {status.state === 'needs-password' && (
+            <div className="bg-white p-2 rounded border border-sky-100 space-y-2">
+              <p className="text-[10px] text-gray-600">The synced copy uses a different backup password. Enter the one set on your other device.</p>
+              <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} placeholder="Backup password" />
+              <button onClick={handleUnlock} disabled={!passphrase} className="w-full bg-gray-800 text-white py-1.5 rounded text-xs font-medium disabled:opacity-50">Use This Password</button>
+            </div>
+          )}
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] text-amber-700 font-bold uppercase">Changed on both devices ({conflicts.length})</p>
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="bg-white p-2 rounded border border-amber-200 space-y-1.5">
+                  <p className="text-[10px] font-mono text-gray-700">•••• {conflict.local.cardNumber.slice(-4)}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['local', 'remote'] as const).map(side => (
+                      <button key={side} onClick={() => onResolve(conflict, side)} className={`text-left p-1.5 rounded border text-[10px] ${conflict.kept === side ? 'border-sky-500 bg-sky-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                        <span className="block font-bold text-gray-700">{side === 'local' ? 'This device' : 'Other device'}{conflict.kept === side ? ' (kept)' : ''}</span>
+                        <span className="block text-gray-600">₹{conflict[side].balance.toFixed(2)}{conflict[side].deletedAt ? ' · in trash' : ''}</span>
+                        <span className="block text-gray-400">{new Date(conflict[side].lastUpdated).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-[10px] text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {error}</p>}
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={onSyncNow} disabled={status.state === 'syncing'} className="bg-sky-600 text-white py-1.5 rounded text-xs font-medium hover:bg-sky-700 disabled:opacity-50 flex items-center justify-center gap-1"><RefreshCw className="w-3 h-3" /> Sync</button>
+            <button onClick={() => setIsEditing(true)} className="bg-white border border-gray-200 text-gray-700 py-1.5 rounded text-xs font-medium hover:bg-gray-50">Edit</button>
+            <button onClick={handleDisconnect} className="bg-white border border-gray-200 text-red-600 py-1.5 rounded text-xs font-medium hover:bg-red-50">Disconnect</button>
+          </div>
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="bg-sky-50 p-3 rounded-lg space-y-2">
+          <select value={form.provider} onChange={e => update('provider', e.target.value)} className={`${inputClass} bg-white`}>
+            <option value="webdav">WebDAV (Nextcloud, ownCloud, NAS...)</option>
+            <option value="s3">S3-compatible (MinIO, R2, AWS...)</option>
+          </select>
+          {form.provider === 'webdav' ? (
+            <>
+              <input type="url" value={form.url} onChange={e => update('url', e.target.value)} className={inputClass} placeholder={`File URL, e.g. https://dav.example.com/${DEFAULT_SYNC_OBJECT_KEY}`} />
+              <div className="grid grid-cols-2 gap-2">
+                <input type="text" value={form.username} onChange={e => update('username', e.target.value)} className={inputClass} placeholder="Username" autoComplete="off" />
+                <input type="password" value={form.password} onChange={e => update('password', e.target.value)} className={inputClass} placeholder="Password" autoComplete="new-password" />
+              </div>
+            </>
+          ) : (
+            <>
+              <input type="url" value={form.endpoint} onChange={e => update('endpoint', e.target.value)} className={inputClass} placeholder="Endpoint, e.g. https://s3.example.com" />
+              <div className="grid grid-cols-2 gap-2">
+                <input type="text" value={form.bucket} onChange={e => update('bucket', e.target.value)} className={inputClass} placeholder="Bucket" />
+                <input type="text" value={form.region} onChange={e => update('region', e.target.value)} className={inputClass} placeholder="Region" />
+              </div>
+              <input type="text" value={form.key} onChange={e => update('key', e.target.value)} className={inputClass} placeholder="Object key" />
+              <div className="grid grid-cols-2 gap-2">
+                <input type="text" value={form.accessKeyId} onChange={e => update('accessKeyId', e.target.value)} className={inputClass} placeholder="Access key ID" autoComplete="off" />
+                <input type="password" value={form.secretAccessKey} onChange={e => update('secretAccessKey', e.target.value)} className={inputClass} placeholder="Secret access key" autoComplete="new-password" />
+              </div>
+            </>
+          )}
+          {error && <p className="text-[10px] text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {error}</p>}
+          <p className="text-[10px] text-gray-500 leading-normal">The server must allow requests from this app's address (CORS) and expose the <code>ETag</code> header.</p>
+          <div className="flex gap-2">
+            {config && <button onClick={() => setIsEditing(false)} className="px-3 py-2 text-gray-500 text-xs font-medium hover:bg-gray-100 rounded-lg">Cancel</button>}
+            <button onClick={handleSave} className="flex-1 bg-gray-800 text-white py-2 rounded-lg font-medium hover:bg-gray-900 text-xs flex items-center justify-center gap-2"><Cloud className="w-3 h-3" /> {config ? 'Save & Sync' : 'Connect'}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SettingsModal = ({ 
+  isOpen, 
+  onClose, 
+  cards, 
+  onImport,
+  reminderDays,
+  onReminderDaysChange,
+  clipboardDetect,
+  onClipboardDetectChange,
+  trashDays,
+  onTrashDaysChange,
+  lockSettings,
+  onLockSettingsChange,
+  backupKey,
+  onSetBackupPassphrase,
+  onReplaceAll,
+  backupDir,
+  onSelectBackupFolder,
+  backupStatus,
+  onVerifyPermission,
+  syncConfig,
+  syncStatus,
+  syncConflicts,
+  onSaveSyncConfig,
+  onSyncNow,
+  onUnlockSync,
+  onResolveSyncConflict,
+  onOpenCardShare,
+  onLeaveApp
+}: { 
+  isOpen: boolean, 
+  onClose: () => void,
+  cards: GiftCard[],
+  onImport: (cards: GiftCard[]) => void,
+  reminderDays: number[],
+  onReminderDaysChange: (days: number[]) => void,
+  clipboardDetect: boolean,
+  onClipboardDetectChange: (enabled: boolean) => void,
+  trashDays: number,
+  onTrashDaysChange: (days: number) => void,
+  lockSettings: LockSettings,
+  onLockSettingsChange: (settings: LockSettings) => void,
+  backupKey: BackupKey | null,
+  onSetBackupPassphrase: (passphrase: string) => Promise<void>,
+  onReplaceAll: (cards: GiftCard[]) => void,
+  backupDir: FileSystemDirectoryHandle | null,
+  onSelectBackupFolder: () => void,
+  backupStatus: { lastBackup: number | null, error: string | null, pendingPermission: boolean },
+  onVerifyPermission: () => void,
+  syncConfig: SyncConfig | null,
+  syncStatus: SyncStatus,
+  syncConflicts: SyncConflict[],
+  onSaveSyncConfig: (config: SyncConfig | null) => Promise<void>,
+  onSyncNow: () => void,
+  onUnlockSync: (passphrase: string) => Promise<boolean>,
+  onResolveSyncConflict: (conflict: SyncConflict, keep: 'local' | 'remote') => void,
+  onOpenCardShare: (share: CardShare) => void,
+  onLeaveApp: () => void
+}) => {
+  const [apiKey, setApiKey] = useState('');
+  const [aiConfig, setAiConfig] = useState<AIConfig>(AI_DEFAULTS.gemini);
+  const [showKey, setShowKey] = useState(false);
+  const [aiFallback, setAiFallback] = useState(false);
+  const [reminderInput, setReminderInput] = useState('');
+  const [trashDaysInput, setTrashDaysInput] = useState('');
+  const [lockInput, setLockInput] = useState({ idleMinutes: '', lockOnHide: true, revealSeconds: '' });
+  const [pinChange, setPinChange] = useState({ current: '', next: '', confirm: '' });
+  const [newCredential, setNewCredential] = useState<VaultCredential>(DEFAULT_CREDENTIAL);
+  const [isChangingPin, setIsChangingPin] = useState(false);
+  const [wipeAfterInput, setWipeAfterInput] = useState('');
+  const [biometric, setBiometric] = useState({ available: false, enrolled: false, pin: '', isEnrolling: false });
+  const [backupPassphrase, setBackupPassphraseInput] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<BackupEnvelope | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [retention, setRetention] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+  const [transferMode, setTransferMode] = useState<'send' | 'receive' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setApiKey(localStorage.getItem('kfc_api_key') || '');
+      setAiConfig(getAIConfig());
+      setAiFallback(isAIFallbackEnabled());
+      setReminderInput(reminderDays.join(', '));
+      setTrashDaysInput(String(trashDays));
+      setLockInput({ idleMinutes: String(lockSettings.idleMinutes), lockOnHide: lockSettings.lockOnHide, revealSeconds: String(lockSettings.revealSeconds) });
+      setPinChange({ current: '', next: '', confirm: '' });
+      setNewCredential(getVaultCredential());
+      setWipeAfterInput(String(getWipeAfter()));
+      setBiometric({ available: false, enrolled: hasBiometricUnlock(), pin: '', isEnrolling: false });
+      isBiometricAvailable().then(available => setBiometric(b => ({ ...b, available })));
+      setRetention(getRetentionPolicy());
+      setBackupPassphraseInput('');
+      setPendingBackup(null);
+      setImportPreview(null);
+      setTransferMode(null);
+    }
+  }, [isOpen]);
+
+  const handleToggleAIFallback = () => {
+    localStorage.setItem('kfc_ai_fallback', String(!aiFallback));
+    setAiFallback(!aiFallback);
+  };
+
+  // Turning it on reads the clipboard once so the browser asks for permission while there's a tap to attach it to
+  const handleToggleClipboardDetect = async () => {
+    if (!clipboardDetect) await navigator.clipboard.readText().catch(() => {});
+    localStorage.setItem(CLIPBOARD_DETECT_KEY, String(!clipboardDetect));
+    onClipboardDetectChange(!clipboardDetect);
+  };
+
+  const handleSaveKey = () => {
+    localStorage.setItem('kfc_api_key', apiKey.trim());
+    saveAIConfig({ ...aiConfig, model: aiConfig.model.trim() || AI_DEFAULTS[aiConfig.provider].model, baseUrl: aiConfig.baseUrl.trim() });
+    alert("AI Settings Saved!");
+  };
+
+  const handleSaveReminders = () => {
+    const days = parseReminderDays(reminderInput);
+    localStorage.setItem('kfc_reminder_days', JSON.stringify(days));
+    onReminderDaysChange(days);
+    setReminderInput(days.join(', '));
+    alert(days.length > 0 ? "Reminders Saved!" : "Expiry reminders turned off.");
+  };
+
+  const handleSaveTrashDays = () => {
+    const days = parseInt(trashDaysInput, 10);
+    if (!(days >= 1 && days <= 365)) { alert("Enter a number of days between 1 and 365."); return; }
+    localStorage.setItem('kfc_trash_days', String(days));
+    onTrashDaysChange(days);
+    alert("Trash Settings Saved!");
+  };
+
+  const handleSaveLockSettings = () => {
+    const idleMinutes = parseInt(lockInput.idleMinutes, 10) || 0;
+    const revealSeconds = parseInt(lockInput.revealSeconds, 10) || 0;
+    if (idleMinutes < 0 || idleMinutes > 240 || revealSeconds < 0 || revealSeconds > 300) { alert("Use 0–240 minutes and 0–300 seconds (0 turns the timer off)."); return; }
+    const settings = { idleMinutes, lockOnHide: lockInput.lockOnHide, revealSeconds };
+    saveLockSettings(settings);
+    onLockSettingsChange(settings);
+    alert("Auto-Lock Settings Saved!");
+  };
+
+  const handleChangePin = async () => {
+    if (!isValidSecret(pinChange.next, newCredential)) {
+      alert(newCredential.type === 'pin' ? `New PIN must be exactly ${newCredential.length} digits.` : `New passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (pinChange.next !== pinChange.confirm) { alert("New PINs do not match."); return; }
+    setIsChangingPin(true);
+    try {
+      if (!(await changeVaultPin(pinChange.current, pinChange.next, newCredential))) { alert("Current PIN is incorrect."); return; }
+      setPinChange({ current: '', next: '', confirm: '' });
+      alert(`Your vault now unlocks with the new ${describeCredential(newCredential)}.`);
+    } catch (err: any) {
+      alert(`Failed to change PIN: ${err.message}`);
+    } finally {
+      setIsChangingPin(false);
+    }
+  };
+
+  const handleEnrolBiometric = async () => {
+    setBiometric(b => ({ ...b, isEnrolling: true }));
+    try {
+      await enrolBiometric(biometric.pin);
+      setBiometric(b => ({ ...b, enrolled: true, pin: '' }));
+      alert("Biometric unlock is set up. Your PIN still works as a fallback.");
+    } catch (err: any) {
+      if (err.name !== 'NotAllowedError') alert(`Could not set up biometric unlock: ${err.message}`);
+    } finally {
+      setBiometric(b => ({ ...b, isEnrolling: false }));
+    }
+  };
+
+  const handleRemoveBiometric = () => {
+    if (!confirm("Remove biometric unlock? You'll need your PIN to unlock.")) return;
+    removeBiometric();
+    setBiometric(b => ({ ...b, enrolled: false }));
+  };
+
+  const handleSaveWipeAfter = () => {
+    const limit = parseInt(wipeAfterInput, 10) || 0;
+    if (limit !== 0 && (limit < 5 || limit > 50)) { alert("Use 0 (off) or a limit between 5 and 50 attempts."); return; }
+    localStorage.setItem('kfc_wipe_after', String(limit));
+    setWipeAfterInput(String(limit));
+    alert(limit > 0 ? `The vault will be erased after ${limit} incorrect attempts.` : "Self-erase turned off.");
+  };
+
+  const handleSaveBackupPassphrase = async () => {
+    if (backupPassphrase.length < 8) { alert("Backup password must be at least 8 characters."); return; }
+    try {
+      await onSetBackupPassphrase(backupPassphrase);
+      setBackupPassphraseInput('');
+      alert("Backup Password Saved!");
+    } catch (err: any) {
+      alert(`Failed to save backup password: ${err.message}`);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!backupKey) { alert("Set a backup password first so the exported file is encrypted."); return; }
+    const dataStr = await sealBackup(backupKey, cards);
+    const blob = new Blob([dataStr], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `kfc_cards_backup_${new Date().toISOString().slice(0,10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const json = JSON.parse(event.target?.result as string);
+        if (isBackupEnvelope(json)) {
+          setRestorePassphrase('');
+          setPendingBackup(json);
+        } else if (isCardShare(json)) {
+          onOpenCardShare(json);
+        } else if (Array.isArray(json)) {
+          previewImport(json);
+        } else {
+          alert("File is not a card backup.");
+        }
+      } catch (err) {
+        alert("Failed to parse JSON file.");
+      }
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const previewImport = (rows: unknown[]) => {
+    setImportPreview(buildImportPreview(cards, rows));
+  };
+
+  const handleReplaceFromSnapshot = (rows: unknown[]) => {
+    const { added, rejected } = buildImportPreview([], rows);
+    if (rejected.length > 0 && !confirm(`${rejected.length} row(s) in this snapshot are invalid and will be skipped.\n\nContinue?`)) return;
+    onReplaceAll(added);
+    alert("Snapshot Restored!");
+    onClose();
+  };
+
+  const updateRetention = (field: keyof RetentionPolicy, value: string) => {
+    const next = { ...retention, [field]: Math.max(field === 'keepLast' ? 1 : 0, Math.min(100, parseInt(value, 10) || 0)) };
+    setRetention(next);
+    saveRetentionPolicy(next);
+  };
+
+  const applyImport = (selected: GiftCard[]) => {
+    onImport(selected);
+    setImportPreview(null);
+    alert("Import Successful!");
+    onClose();
+  };
+
+  const handleDecryptBackup = async () => {
+    if (!pendingBackup || !restorePassphrase) return;
+    setIsDecrypting(true);
+    try {
+      const restored = await openBackup(pendingBackup, restorePassphrase);
+      if (!restored) { alert("Incorrect backup password."); return; }
+      setPendingBackup(null);
+      previewImport(restored);
+    } catch (err: any) {
+      alert(`Failed to open backup: ${err.message}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isFileSystemSupported = 'showDirectoryPicker' in window;
+
+  if (importPreview) return <ImportPreviewModal preview={importPreview} onCancel={() => setImportPreview(null)} onConfirm={applyImport} />;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[70] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-5 border-b flex justify-between items-center bg-gray-50 shrink-0">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            <Settings className="w-5 h-5 text-gray-600" />
+            Settings
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        
+        <div className="p-6 space-y-8 overflow-y-auto">
+          
+          {/* AI Key Section */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-purple-100 p-1.5 rounded-lg">
+                <Smartphone className="w-4 h-4 text-purple-600" />
+              </div>
+              <label className="text-sm font-bold text-gray-700">AI Features</label>
+            </div>
+            <div className="grid grid-cols-2 gap-1 bg-gray-100 p-1 rounded-lg text-xs font-medium">
+              <button onClick={() => setAiConfig(AI_DEFAULTS.gemini)} className={`py-1.5 rounded-md ${aiConfig.provider === 'gemini' ? 'bg-white shadow text-gray-800' : 'text-gray-500'}`}>Gemini</button>
+              <button onClick={() => setAiConfig(AI_DEFAULTS.openai)} className={`py-1.5 rounded-md ${aiConfig.provider === 'openai' ? 'bg-white shadow text-gray-800' : 'text-gray-500'}`}>OpenAI-compatible</button>
+            </div>
+            {aiConfig.provider === 'openai' && (
+              <input 
+                type="url" 
+                value={aiConfig.baseUrl}
+                onChange={(e) => setAiConfig({ ...aiConfig, baseUrl: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+                placeholder="Base URL, e.g. http://localhost:11434/v1"
+              />
+            )}
+            <input 
+              type="text" 
+              value={aiConfig.model}
+              onChange={(e) => setAiConfig({ ...aiConfig, model: e.target.value })}
+              className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+              placeholder="Model name"
+            />
+            <div className="relative">
+              <input 
+                type={showKey ? "text" : "password"} 
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                className="w-full p-3 pr-10 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+                placeholder={aiConfig.provider === 'openai' ? "API Key (optional for local servers)" : "Gemini API Key"}
+              />
+              <button 
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-3 top-3 text-gray-400 hover:text-gray-600"
+              >
+                {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+            <button 
+              onClick={handleSaveKey}
+              className="w-full mt-1 bg-gray-800 text-white py-2 rounded-lg font-medium hover:bg-gray-900 flex items-center justify-center gap-2 text-xs"
+            >
+              <Save className="w-3 h-3" /> Save AI Settings
+            </button>
+            <label className="flex items-start gap-2 pt-1 cursor-pointer">
+              <input type="checkbox" checked={aiFallback} onChange={handleToggleAIFallback} className="mt-0.5 accent-red-600" />
+              <span className="text-[10px] text-gray-500 leading-tight">Send balance SMS to AI when the offline parser can't read it. This shares the message with your AI provider.</span>
+            </label>
+          </div>
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
+          {/* Expiry Reminders */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-amber-100 p-1.5 rounded-lg">
+                <CalendarClock className="w-4 h-4 text-amber-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Expiry Reminders</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">Days before expiry to notify you. Leave empty to turn off.</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input 
+                type="text" 
+                value={reminderInput}
+                onChange={(e) => setReminderInput(e.target.value)}
+                className="flex-1 p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+                placeholder="30, 7, 1"
+              />
+              <button onClick={handleSaveReminders} className="px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs">Save</button>
+            </div>
+          </div>
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
+          {/* Clipboard Detection */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-yellow-100 p-1.5 rounded-lg">
+                <Clipboard className="w-4 h-4 text-yellow-700" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Clipboard Detection</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">Offer to add cards or update a balance when you open the app with a gift card email or SMS copied.</span>
+              </div>
+            </div>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input type="checkbox" checked={clipboardDetect} onChange={handleToggleClipboardDetect} className="mt-0.5 accent-red-600" />
+              <span className="text-[10px] text-gray-500 leading-tight">Check the clipboard when the app opens. Needs clipboard permission, which only Chrome and Edge can grant; the text never leaves your device.</span>
+            </label>
+          </div>
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
+          {/* Trash */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-gray-100 p-1.5 rounded-lg">
+                <Trash2 className="w-4 h-4 text-gray-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Trash</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">Days a deleted card can still be restored before it is purged.</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input 
+                type="number" 
+                min={1}
+                max={365}
+                value={trashDaysInput}
+                onChange={(e) => setTrashDaysInput(e.target.value)}
+                className="flex-1 p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+              />
+              <button onClick={handleSaveTrashDays} className="px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs">Save</button>
+            </div>
+          </div>
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
+          {/* Auto-Lock */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-red-100 p-1.5 rounded-lg">
+                <Lock className="w-4 h-4 text-red-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Auto-Lock</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">Locking clears your decrypted cards from memory. Use 0 to turn a timer off.</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-[10px] text-gray-500 font-medium">
+                Lock after idle (min)
+                <input type="number" min={0} max={240} value={lockInput.idleMinutes} onChange={(e) => setLockInput({ ...lockInput, idleMinutes: e.target.value })} className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" />
+              </label>
+              <label className="text-[10px] text-gray-500 font-medium">
+                Hide details after (sec)
+                <input type="number" min={0} max={300} value={lockInput.revealSeconds} onChange={(e) => setLockInput({ ...lockInput, revealSeconds: e.target.value })} className="w-full mt-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" />
+              </label>
+            </div>
+            <label className="flex items-start gap-2 pt-1 cursor-pointer">
+              <input type="checkbox" checked={lockInput.lockOnHide} onChange={() => setLockInput({ ...lockInput, lockOnHide: !lockInput.lockOnHide })} className="mt-0.5 accent-red-600" />
+              <span className="text-[10px] text-gray-500 leading-tight">Lock as soon as you switch apps, turn off the screen or close the tab. Sending the balance SMS, taking a photo or sharing a card allows 5 minutes to come back.</span>
+            </label>
+            <button onClick={handleSaveLockSettings} className="w-full py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs">Save Auto-Lock Settings</button>
+          </div>
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json)) {
-          if(confirm(`Found ${json.length} cards. Import?`)) {
-            onImport(json);
-            alert("Import Successful!");
-            onClose();
-          }
-        }
-      } catch (err) {
-        alert("Failed to parse JSON file.");
-      }
-    };
-    reader.readAsText(file);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-  };
+          <div className="h-px bg-gray-100 w-full"></div>
 
-  if (!isOpen) return null;
+          {/* Biometric Unlock */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-red-100 p-1.5 rounded-lg">
+                <Fingerprint className="w-4 h-4 text-red-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Biometric Unlock</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">
+                  {biometric.enrolled ? "On. Fingerprint or face unlock opens the vault; the PIN still works." : biometric.available ? "Unlock with this device's fingerprint, face or screen lock (needs passkey PRF support)." : "No platform authenticator is available in this browser."}
+                </span>
+              </div>
+            </div>
+            {biometric.enrolled ? (
+              <button onClick={handleRemoveBiometric} className="w-full py-2 border border-red-200 text-red-600 rounded-lg font-medium hover:bg-red-50 text-xs">Remove Biometric Unlock</button>
+            ) : biometric.available && (
+              <div className="flex gap-2">
+                <input type="password" value={biometric.pin} onChange={(e) => setBiometric({ ...biometric, pin: e.target.value })} className="flex-1 p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" placeholder="Current PIN" />
+                <button onClick={handleEnrolBiometric} disabled={biometric.isEnrolling || !biometric.pin} className="px-4 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs flex items-center gap-1 disabled:opacity-50">{biometric.isEnrolling && <Loader2 className="w-3 h-3 animate-spin" />} Set Up</button>
+              </div>
+            )}
+          </div>
 
-  const isFileSystemSupported = 'showSaveFilePicker' in window;
+          <div className="h-px bg-gray-100 w-full"></div>
 
-  return (
-    <div className="fixed inset-0 bg-black/60 z-[70] flex items-center justify-center p-4 backdrop-blur-sm">
-      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
-        <div className="p-5 border-b flex justify-between items-center bg-gray-50 shrink-0">
-          <h3 className="font-bold text-gray-800 flex items-center gap-2">
-            <Settings className="w-5 h-5 text-gray-600" />
-            Settings
-          </h3>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-        
-        <div className="p-6 space-y-8 overflow-y-auto">
-          
-          {/* AI Key Section */}
+          {/* Change PIN */}
           <div className="space-y-2">
             <div className="flex items-center gap-2 mb-1">
-              <div className="bg-purple-100 p-1.5 rounded-lg">
-                <Smartphone className="w-4 h-4 text-purple-600" />
+              <div className="bg-red-100 p-1.5 rounded-lg">
+                <KeyRound className="w-4 h-4 text-red-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Change PIN</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">Currently a {describeCredential(getVaultCredential())}. Your cards stay as they are; only the lock changes.</span>
               </div>
-              <label className="text-sm font-bold text-gray-700">AI Features</label>
             </div>
-            <div className="relative">
-              <input 
-                type={showKey ? "text" : "password"} 
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="w-full p-3 pr-10 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
-                placeholder="Gemini API Key"
-              />
-              <button 
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-3 top-3 text-gray-400 hover:text-gray-600"
-              >
-                {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-              </button>
+            <input type="password" value={pinChange.current} onChange={(e) => setPinChange({ ...pinChange, current: e.target.value })} className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" placeholder="Current PIN or passphrase" />
+            <select
+              value={newCredential.type === 'pin' ? String(newCredential.length) : 'passphrase'}
+              onChange={(e) => setNewCredential(e.target.value === 'passphrase' ? { type: 'passphrase' } : { type: 'pin', length: Number(e.target.value) })}
+              className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none bg-white"
+            >
+              {Array.from({ length: MAX_PIN_LENGTH - MIN_PIN_LENGTH + 1 }, (_, i) => MIN_PIN_LENGTH + i).map(length => <option key={length} value={length}>{length}-digit PIN</option>)}
+              <option value="passphrase">Passphrase ({MIN_PASSPHRASE_LENGTH}+ characters)</option>
+            </select>
+            <div className="grid grid-cols-2 gap-2">
+              <input type="password" inputMode={newCredential.type === 'pin' ? 'numeric' : 'text'} value={pinChange.next} onChange={(e) => setPinChange({ ...pinChange, next: e.target.value })} className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" placeholder="New" />
+              <input type="password" inputMode={newCredential.type === 'pin' ? 'numeric' : 'text'} value={pinChange.confirm} onChange={(e) => setPinChange({ ...pinChange, confirm: e.target.value })} className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" placeholder="Confirm new" />
+            </div>
+            <button onClick={handleChangePin} disabled={isChangingPin || !pinChange.current || !pinChange.next} className="w-full py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs flex items-center justify-center gap-2 disabled:opacity-50">{isChangingPin && <Loader2 className="w-3 h-3 animate-spin" />} Change PIN</button>
+            <div className="flex items-center gap-2 pt-1">
+              <span className="text-[10px] text-gray-500 leading-tight flex-1">Erase all cards after this many incorrect attempts (0 = never). Wrong guesses also lock the screen for longer each time.</span>
+              <input type="number" min={0} max={50} value={wipeAfterInput} onChange={(e) => setWipeAfterInput(e.target.value)} className="w-16 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none" />
+              <button onClick={handleSaveWipeAfter} className="px-3 py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 text-xs">Save</button>
+            </div>
+          </div>
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
+          {/* Backup Password */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 mb-1">
+              <div className="bg-green-100 p-1.5 rounded-lg">
+                <ShieldCheck className="w-4 h-4 text-green-600" />
+              </div>
+              <div>
+                <label className="text-sm font-bold text-gray-700 block">Backup Password</label>
+                <span className="text-[10px] text-gray-500 block leading-tight">
+                  {backupKey ? 'Set. Exports and auto-saves are encrypted.' : 'Required to export or auto-save backups.'}
+                </span>
+              </div>
             </div>
+            <input 
+              type="password" 
+              value={backupPassphrase}
+              onChange={(e) => setBackupPassphraseInput(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+              placeholder={backupKey ? "New backup password" : "Backup password (min 8 chars)"}
+            />
             <button 
-              onClick={handleSaveKey}
+              onClick={handleSaveBackupPassphrase}
               className="w-full mt-1 bg-gray-800 text-white py-2 rounded-lg font-medium hover:bg-gray-900 flex items-center justify-center gap-2 text-xs"
             >
-              <Save className="w-3 h-3" /> Save Key
+              <Lock className="w-3 h-3" /> {backupKey ? 'Change Password' : 'Set Password'}
             </button>
+            <p className="text-[10px] text-gray-500 leading-normal">Backups cannot be restored without this password. It is separate from your app PIN.</p>
           </div>
 
           <div className="h-px bg-gray-100 w-full"></div>
@@ -307,8 +3361,8 @@ const SettingsModal = ({
                   <HardDrive className="w-4 h-4 text-blue-600" />
                 </div>
                 <div>
-                   <label className="text-sm font-bold text-gray-700 block">Automatic File Sync</label>
-                   <span className="text-[10px] text-gray-500 block leading-tight">Syncs to a file on your device (or Google Drive folder).</span>
+                   <label className="text-sm font-bold text-gray-700 block">Automatic Folder Backup</label>
+                   <span className="text-[10px] text-gray-500 block leading-tight">Saves timestamped snapshots to a folder on your device (or Google Drive folder).</span>
                 </div>
              </div>
              
@@ -317,11 +3371,11 @@ const SettingsModal = ({
                   <>
                      <div className="flex items-center justify-between bg-white p-2 rounded border border-blue-100">
                         <div className="flex items-center gap-2 overflow-hidden">
-                           <FileJson className={`w-4 h-4 shrink-0 ${fileHandle ? 'text-green-500' : 'text-gray-300'}`} />
+                           <Folder className={`w-4 h-4 shrink-0 ${backupDir ? 'text-green-500' : 'text-gray-300'}`} />
                            <div className="flex flex-col">
-                             <span className="text-[10px] text-gray-400 font-medium">Selected File</span>
-                             <span className="text-xs font-bold text-gray-700 truncate max-w-[140px]" title={fileHandle?.name || 'None'}>
-                               {fileHandle ? fileHandle.name : 'Not Connected'}
+                             <span className="text-[10px] text-gray-400 font-medium">Selected Folder</span>
+                             <span className="text-xs font-bold text-gray-700 truncate max-w-[140px]" title={backupDir?.name || 'None'}>
+                               {backupDir ? backupDir.name : 'Not Connected'}
                              </span>
                            </div>
                         </div>
@@ -336,10 +3390,10 @@ const SettingsModal = ({
                         </button>
                      ) : (
                         <button 
-                          onClick={onSelectBackupFile}
-                          className={`w-full text-white py-2 rounded-lg font-medium text-xs flex items-center justify-center gap-2 transition-colors ${fileHandle ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-800'}`}
+                          onClick={onSelectBackupFolder}
+                          className={`w-full text-white py-2 rounded-lg font-medium text-xs flex items-center justify-center gap-2 transition-colors ${backupDir ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-800'}`}
                         >
-                          <FolderInput className="w-3 h-3" /> {fileHandle ? 'Change File' : 'Select Backup File'}
+                          <FolderInput className="w-3 h-3" /> {backupDir ? 'Change Folder' : 'Select Backup Folder'}
                         </button>
                      )}
 
@@ -347,6 +3401,15 @@ const SettingsModal = ({
                        <strong>Tip:</strong> Select a location inside your <strong>Google Drive</strong> or <strong>OneDrive</strong> folder to sync to the cloud automatically.
                      </p>
 
+                     <div className="grid grid-cols-3 gap-2">
+                       {([['keepLast', 'Keep last'], ['keepDaily', 'Daily'], ['keepWeekly', 'Weekly']] as const).map(([field, label]) => (
+                         <label key={field} className="text-[10px] text-gray-500 font-medium">
+                           {label}
+                           <input type="number" min={field === 'keepLast' ? 1 : 0} value={retention[field]} onChange={e => updateRetention(field, e.target.value)} className="w-full mt-0.5 p-1.5 border border-blue-100 rounded text-xs text-gray-800" />
+                         </label>
+                       ))}
+                     </div>
+
                      {backupStatus.lastBackup && (
                       <p className="text-[10px] text-green-700 flex items-center gap-1 mt-1">
                         <CheckCircle className="w-3 h-3" /> 
@@ -358,11 +3421,15 @@ const SettingsModal = ({
                           <AlertCircle className="w-3 h-3" /> {backupStatus.error}
                         </p>
                      )}
+
+                     {backupDir && !backupStatus.pendingPermission && (
+                        <SnapshotBrowser dir={backupDir} backupKey={backupKey} onMerge={previewImport} onReplace={handleReplaceFromSnapshot} />
+                     )}
                   </>
                 ) : (
                   <div className="text-center p-2 text-xs text-gray-500">
-                    <p>Your browser does not support direct file syncing (Chrome/Edge Desktop only).</p>
-                    <p className="mt-1">Please use "Export JSON" below instead.</p>
+                    <p>Your browser does not support folder backups (Chrome/Edge Desktop only).</p>
+                    <p className="mt-1">Please use "Download Backup" below instead.</p>
                   </div>
                 )}
              </div>
@@ -370,6 +3437,11 @@ const SettingsModal = ({
 
           <div className="h-px bg-gray-100 w-full"></div>
 
+          {/* Remote Sync */}
+          <SyncSettings config={syncConfig} status={syncStatus} conflicts={syncConflicts} onSave={onSaveSyncConfig} onSyncNow={onSyncNow} onUnlock={onUnlockSync} onResolve={onResolveSyncConflict} />
+
+          <div className="h-px bg-gray-100 w-full"></div>
+
           {/* Manual Actions */}
           <div className="space-y-3">
              <label className="text-sm font-bold text-gray-700 block">Manual Actions</label>
@@ -379,15 +3451,15 @@ const SettingsModal = ({
                   className="flex flex-col items-center justify-center gap-2 p-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
                 >
                   <Download className="w-6 h-6 text-green-600" />
-                  <span className="text-xs font-medium">Download JSON</span>
+                  <span className="text-xs font-medium">Download Backup</span>
                 </button>
 
                 <button 
-                  onClick={() => fileInputRef.current?.click()}
+                  onClick={() => { onLeaveApp(); fileInputRef.current?.click(); }}
                   className="flex flex-col items-center justify-center gap-2 p-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
                 >
                   <Upload className="w-6 h-6 text-orange-600" />
-                  <span className="text-xs font-medium">Import JSON</span>
+                  <span className="text-xs font-medium">Import Backup</span>
                 </button>
                 <input 
                   type="file" 
@@ -396,7 +3468,48 @@ const SettingsModal = ({
                   accept=".json" 
                   className="hidden" 
                 />
+
+                <button 
+                  onClick={() => cards.length > 0 ? setTransferMode('send') : alert("There are no cards to send.")}
+                  className="flex flex-col items-center justify-center gap-2 p-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <QrCode className="w-6 h-6 text-purple-600" />
+                  <span className="text-xs font-medium">Send to Device</span>
+                </button>
+
+                <button 
+                  onClick={() => setTransferMode('receive')}
+                  className="flex flex-col items-center justify-center gap-2 p-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <ScanLine className="w-6 h-6 text-purple-600" />
+                  <span className="text-xs font-medium">Receive</span>
+                </button>
              </div>
+             {transferMode === 'send' && <TransferSendModal cards={cards} onClose={() => setTransferMode(null)} />}
+             {transferMode === 'receive' && <TransferReceiveModal onClose={() => setTransferMode(null)} onReceive={(rows) => { setTransferMode(null); previewImport(rows); }} />}
+             {pendingBackup && (
+                <div className="bg-orange-50 border border-orange-100 p-3 rounded-lg space-y-2">
+                   <p className="text-xs text-gray-700 flex items-center gap-1"><Lock className="w-3 h-3 text-orange-600" /> This backup is encrypted. Enter its password.</p>
+                   <input 
+                     type="password" 
+                     value={restorePassphrase}
+                     onChange={(e) => setRestorePassphrase(e.target.value)}
+                     className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+                     placeholder="Backup password"
+                     autoFocus
+                   />
+                   <div className="flex gap-2">
+                      <button onClick={() => setPendingBackup(null)} className="px-3 py-2 text-gray-500 text-xs font-medium hover:bg-gray-100 rounded-lg">Cancel</button>
+                      <button 
+                        onClick={handleDecryptBackup}
+                        disabled={isDecrypting || !restorePassphrase}
+                        className="flex-1 bg-orange-600 text-white py-2 rounded-lg font-medium hover:bg-orange-700 text-xs flex items-center justify-center gap-2 disabled:opacity-50"
+                      >
+                        {isDecrypting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Unlock className="w-3 h-3" />} Decrypt & Import
+                      </button>
+                   </div>
+                </div>
+             )}
           </div>
           
         </div>
@@ -409,31 +3522,46 @@ const SettingsModal = ({
 // For brevity, assuming standard imports and these components remain exactly as previous version unless specified
 // I will include them in full below to ensure the file is complete.
 
-const AuthScreen = ({ onAuthenticated }: { onAuthenticated: () => void }) => {
+const AuthScreen = ({ onAuthenticated }: { onAuthenticated: (key: CryptoKey, cards: GiftCard[]) => void }) => {
   const [pin, setPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
   const [mode, setMode] = useState<'LOGIN' | 'SETUP' | 'CONFIRM'>('LOGIN');
+  const [credential, setCredential] = useState<VaultCredential>(getVaultCredential);
   const [error, setError] = useState('');
   const [shake, setShake] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(() => getUnlockAttempts().lockedUntil);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
-    const storedPin = localStorage.getItem('kfc_app_pin');
-    if (!storedPin) {
+    if (!loadStoredVault() && !hasLegacyVault()) {
       setMode('SETUP');
     } else {
       setMode('LOGIN');
     }
   }, []);
 
+  // Ticks the lockout countdown
+  useEffect(() => {
+    if (lockedUntil <= Date.now()) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isLockedOut = mode === 'LOGIN' && lockedUntil > now;
+  const pinLength = credential.type === 'pin' ? credential.length : 0;
+  const secretName = credential.type === 'pin' ? 'PIN' : 'passphrase';
+
   const handleDigit = (digit: string) => {
+    if (isUnlocking || isLockedOut) return;
     setError('');
     const currentInput = mode === 'CONFIRM' ? confirmPin : pin;
     
-    if (currentInput.length < 4) {
+    if (currentInput.length < pinLength) {
       const newVal = currentInput + digit;
       if (mode === 'CONFIRM') setConfirmPin(newVal);
       else setPin(newVal);
-      if (newVal.length === 4) setTimeout(() => submitPin(newVal), 100);
+      if (newVal.length === pinLength) setTimeout(() => submitPin(newVal), 100);
     }
   };
 
@@ -443,161 +3571,657 @@ const AuthScreen = ({ onAuthenticated }: { onAuthenticated: () => void }) => {
     else setPin(prev => prev.slice(0, -1));
   };
 
-  const submitPin = (inputPin: string) => {
-    const storedPin = localStorage.getItem('kfc_app_pin');
+  const handlePassphraseSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isUnlocking || isLockedOut) return;
+    const value = mode === 'CONFIRM' ? confirmPin : pin;
+    if (mode === 'SETUP' && !isValidSecret(value, credential)) { triggerError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`); return; }
+    submitPin(value);
+  };
+
+  const chooseCredential = (next: VaultCredential) => {
+    setCredential(next);
+    setPin(''); setConfirmPin(''); setError('');
+  };
+
+  const login = async (inputPin: string) => {
+    if (hasLegacyVault()) {
+      // First unlock after upgrading: verify against the old plaintext PIN, then encrypt the vault
+      if (inputPin !== localStorage.getItem('kfc_app_pin')) return false;
+      const legacyCards = readLegacyCards();
+      const key = await createVault(inputPin, legacyCards);
+      clearLegacyVault();
+      onAuthenticated(key, legacyCards);
+      return true;
+    }
+    const unlocked = await unlockVault(inputPin);
+    if (!unlocked) return false;
+    onAuthenticated(unlocked.key, unlocked.cards);
+    return true;
+  };
+
+  // Not subject to the PIN lockout: the authenticator rate-limits its own attempts
+  const handleBiometricUnlock = async () => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      const unlocked = await unlockVaultWithBiometric();
+      if (unlocked) { clearUnlockAttempts(); onAuthenticated(unlocked.key, unlocked.cards); }
+      else triggerError(`Biometric unlock failed. Use your ${secretName}.`);
+    } catch (e: any) {
+      // NotAllowedError is the user cancelling or the prompt timing out
+      if (e.name !== 'NotAllowedError') triggerError(`Biometric unlock failed: ${e.message}`);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleFailedUnlock = async () => {
+    const attempts = recordFailedUnlock();
+    const wipeAfter = getWipeAfter();
+    if (wipeAfter > 0 && attempts.failures >= wipeAfter) {
+      await resetVault();
+      alert(`Too many incorrect attempts (${attempts.failures}). All cards on this device have been erased.`);
+      window.location.reload();
+      return;
+    }
+    setLockedUntil(attempts.lockedUntil);
+    setNow(Date.now());
+    const left = wipeAfter > 0 ? ` ${wipeAfter - attempts.failures} attempt(s) left before the vault is erased.` : '';
+    triggerError(`Incorrect ${credential.type === 'pin' ? 'PIN' : 'passphrase'}.${left}`);
+  };
+
+  const submitPin = async (inputPin: string) => {
     if (mode === 'LOGIN') {
-      if (inputPin === storedPin) onAuthenticated();
-      else { triggerError("Incorrect PIN"); setPin(''); }
+      setIsUnlocking(true);
+      try {
+        if (await login(inputPin)) clearUnlockAttempts();
+        else { await handleFailedUnlock(); setPin(''); }
+      } catch (e: any) {
+        triggerError(`Unlock failed: ${e.message}`); setPin('');
+      } finally {
+        setIsUnlocking(false);
+      }
     } else if (mode === 'SETUP') {
       setMode('CONFIRM');
     } else if (mode === 'CONFIRM') {
       if (inputPin === pin) {
-        localStorage.setItem('kfc_app_pin', inputPin);
-        onAuthenticated();
+        setIsUnlocking(true);
+        try {
+          const legacyCards = readLegacyCards();
+          const key = await createVault(inputPin, legacyCards, credential);
+          clearLegacyVault();
+          clearUnlockAttempts();
+          onAuthenticated(key, legacyCards);
+        } catch (e: any) {
+          triggerError(`Setup failed: ${e.message}`);
+          setMode('SETUP'); setPin(''); setConfirmPin('');
+        } finally {
+          setIsUnlocking(false);
+        }
       } else {
-        triggerError("PINs do not match. Try again.");
+        triggerError(`${credential.type === 'pin' ? 'PINs' : 'Passphrases'} do not match. Try again.`);
         setMode('SETUP'); setPin(''); setConfirmPin('');
       }
     }
   };
 
-  const triggerError = (msg: string) => {
-    setError(msg);
-    setShake(true);
-    setTimeout(() => setShake(false), 500);
-  };
+  const triggerError = (msg: string) => {
+    setError(msg);
+    setShake(true);
+    setTimeout(() => setShake(false), 500);
+  };
+
+  const handleReset = async () => {
+    if (!confirm("⚠️ Forgot PIN?\n\nResetting the app will DELETE ALL SAVED CARDS. Snapshots in your backup folder are kept and can be restored from Settings with your backup password.\n\nContinue?")) return;
+    if (prompt('Type RESET to delete all cards on this device.')?.trim().toUpperCase() !== 'RESET') return;
+    await resetVault();
+    window.location.reload();
+  };
+
+  const activePin = mode === 'CONFIRM' ? confirmPin : pin;
+  
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#E4002B] to-[#960018] flex items-center justify-center p-4">
+      <div className={`bg-white w-full max-w-xs rounded-3xl shadow-2xl overflow-hidden p-8 flex flex-col items-center ${shake ? 'animate-shake' : ''}`}>
+        <div className="bg-red-50 p-4 rounded-full mb-6">
+          {mode === 'LOGIN' ? <Lock className="w-8 h-8 text-red-600" /> : <KeyRound className="w-8 h-8 text-red-600" />}
+        </div>
+        <h2 className="text-xl font-bold text-gray-800 mb-2">
+          {mode === 'LOGIN' && "Welcome Back"}
+          {mode === 'SETUP' && `Set Security ${credential.type === 'pin' ? 'PIN' : 'Passphrase'}`}
+          {mode === 'CONFIRM' && `Confirm ${credential.type === 'pin' ? 'PIN' : 'Passphrase'}`}
+        </h2>
+        <p className="text-sm text-gray-500 mb-8 text-center min-h-5">
+          {isLockedOut ? <span className="text-red-500 font-medium flex items-center justify-center gap-1"><Lock className="w-3 h-3"/> Too many attempts. Try again in {formatCountdown(lockedUntil - now)}</span> :
+            error ? <span className="text-red-500 font-medium flex items-center justify-center gap-1"><AlertCircle className="w-3 h-3 shrink-0"/> {error}</span> : 
+            isUnlocking ? <span className="flex items-center justify-center gap-1"><Loader2 className="w-3 h-3 animate-spin"/> Unlocking vault...</span> :
+            (mode === 'LOGIN' ? `Enter your ${describeCredential(credential)}` : mode === 'SETUP' ? `Create a ${describeCredential(credential)}` : "Re-enter to confirm")
+          }
+        </p>
+        {mode === 'SETUP' && (
+          <div className="flex flex-wrap justify-center gap-1 mb-6">
+            {Array.from({ length: MAX_PIN_LENGTH - MIN_PIN_LENGTH + 1 }, (_, i) => MIN_PIN_LENGTH + i).map(length => (
+              <button key={length} onClick={() => chooseCredential({ type: 'pin', length })} className={`px-2.5 py-1 rounded-full text-xs font-bold ${credential.type === 'pin' && credential.length === length ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>{length}</button>
+            ))}
+            <button onClick={() => chooseCredential({ type: 'passphrase' })} className={`px-2.5 py-1 rounded-full text-xs font-bold ${credential.type === 'passphrase' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>Passphrase</button>
+          </div>
+        )}
+        {credential.type === 'pin' ? (
+          <>
+            <div className="flex gap-3 mb-8">
+              {Array.from({ length: pinLength }, (_, i) => (
+                <div key={i} className={`w-4 h-4 rounded-full transition-all duration-200 ${i < activePin.length ? 'bg-red-600 scale-110' : 'bg-gray-200'}`}></div>
+              ))}
+            </div>
+            <div className={`grid grid-cols-3 gap-4 w-full mb-6 ${isLockedOut ? 'opacity-40 pointer-events-none' : ''}`}>
+              {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
+                <button key={num} onClick={() => handleDigit(num.toString())} className="aspect-square rounded-full bg-gray-50 hover:bg-gray-100 text-xl font-bold text-gray-700 active:scale-95">{num}</button>
+              ))}
+              <div className="aspect-square"></div>
+              <button onClick={() => handleDigit('0')} className="aspect-square rounded-full bg-gray-50 hover:bg-gray-100 text-xl font-bold text-gray-700 active:scale-95">0</button>
+              <button onClick={handleBackspace} className="aspect-square rounded-full hover:bg-red-50 text-red-600 flex items-center justify-center active:scale-95"><X className="w-6 h-6" /></button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handlePassphraseSubmit} className="w-full space-y-3 mb-6">
+            <input
+              type="password"
+              autoFocus
+              key={mode}
+              value={activePin}
+              disabled={isLockedOut || isUnlocking}
+              onChange={(e) => { setError(''); if (mode === 'CONFIRM') setConfirmPin(e.target.value); else setPin(e.target.value); }}
+              className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none disabled:bg-gray-50"
+              placeholder={mode === 'CONFIRM' ? `Re-enter ${secretName}` : `Your ${secretName}`}
+            />
+            <button type="submit" disabled={isLockedOut || isUnlocking || !activePin} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors disabled:opacity-50">{mode === 'LOGIN' ? 'Unlock' : mode === 'SETUP' ? 'Continue' : 'Create Vault'}</button>
+          </form>
+        )}
+        {mode === 'LOGIN' && hasBiometricUnlock() && (
+          <button onClick={handleBiometricUnlock} disabled={isUnlocking} className="w-full mb-4 py-3 rounded-lg border border-gray-200 text-gray-700 font-medium hover:bg-gray-50 flex items-center justify-center gap-2 disabled:opacity-50"><Fingerprint className="w-5 h-5 text-red-600" /> Unlock with Biometrics</button>
+        )}
+        {mode === 'LOGIN' && <button onClick={handleReset} className="text-xs text-gray-400 underline hover:text-red-600">Forgot {secretName}? (Reset App)</button>}
+      </div>
+      <style>{`@keyframes shake { 0%, 100% { transform: translateX(0); } 25% { transform: translateX(-5px); } 75% { transform: translateX(5px); } } .animate-shake { animation: shake 0.3s ease-in-out; }`}</style>
+    </div>
+  );
+};
+
+const UndoToast = ({ label, onUndo, onDismiss }: { label: string, onUndo: () => void, onDismiss: () => void }) => (
+  <div className="fixed bottom-6 left-4 right-24 z-[80] max-w-sm bg-gray-900 text-white rounded-xl shadow-2xl p-3 flex items-center gap-3 animate-in slide-in-from-bottom-4 duration-300">
+    <p className="text-sm flex-1">{label}</p>
+    <button onClick={onUndo} className="flex items-center gap-1 text-yellow-300 hover:text-yellow-200 text-xs font-bold"><Undo2 className="w-4 h-4" /> Undo</button>
+    <button onClick={onDismiss} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+  </div>
+);
+
+const ClipboardBanner = ({ route, onOpen, onDismiss }: { route: IncomingTextRoute, onOpen: () => void, onDismiss: () => void }) => (
+  <div className="fixed bottom-24 left-4 right-4 z-[90] max-w-md mx-auto bg-gray-900 text-white rounded-xl shadow-2xl p-3 flex items-center gap-3 animate-in slide-in-from-bottom-4 duration-300">
+    <Clipboard className="w-5 h-5 text-yellow-300 shrink-0" />
+    <p className="text-sm flex-1">{route.kind === 'balance' ? `Balance reply for card ••${route.card.cardNumber.slice(-4)} copied.` : 'Gift card details copied.'}</p>
+    <button onClick={onOpen} className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold">{route.kind === 'balance' ? 'Update' : 'Add'}</button>
+    <button onClick={onDismiss} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+  </div>
+);
+
+const UpdateBanner = ({ onUpdate, onDismiss }: { onUpdate: () => void, onDismiss: () => void }) => (
+  <div className="fixed bottom-24 left-4 right-4 z-[90] max-w-md mx-auto bg-gray-900 text-white rounded-xl shadow-2xl p-3 flex items-center gap-3 animate-in slide-in-from-bottom-4 duration-300">
+    <RefreshCcw className="w-5 h-5 text-green-400 shrink-0" />
+    <p className="text-sm flex-1">A new version is available.</p>
+    <button onClick={onUpdate} className="bg-green-500 hover:bg-green-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold">Update</button>
+    <button onClick={onDismiss} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+  </div>
+);
+
+const InstallHelpModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden">
+        <div className="p-5 border-b flex justify-between items-center bg-gray-50">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><Download className="w-5 h-5 text-red-600" /> Install App</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-600">Install this website as an app on your phone for the best experience.</p>
+          <div className="space-y-4">
+            <div className="flex gap-4 items-start"><div className="bg-gray-100 p-2 rounded-lg shrink-0"><Share2 className="w-6 h-6 text-blue-500" /></div><div><p className="font-bold text-sm text-gray-800">iPhone (Safari)</p><p className="text-xs text-gray-500 mt-1">Tap <strong>Share</strong>, then <span className="font-semibold bg-gray-100 px-1 rounded">Add to Home Screen</span>.</p></div></div>
+            <div className="w-full h-px bg-gray-100"></div>
+            <div className="flex gap-4 items-start"><div className="bg-gray-100 p-2 rounded-lg shrink-0"><MoreVertical className="w-6 h-6 text-green-600" /></div><div><p className="font-bold text-sm text-gray-800">Android (Chrome)</p><p className="text-xs text-gray-500 mt-1">Tap <strong>Menu</strong>, then <span className="font-semibold bg-gray-100 px-1 rounded">Install App</span>.</p></div></div>
+          </div>
+          <button onClick={onClose} className="w-full bg-red-600 text-white py-3 rounded-xl font-bold hover:bg-red-700 transition-colors">Got it</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CardItem: React.FC<CardItemProps> = ({ card, onDelete, onUpdateBalance, onCheckBalance, onPresent, onShare, onClearShared, isArchived = false, revealSeconds = 0 }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editBalance, setEditBalance] = useState(card.balance.toString());
+  const [editNote, setEditNote] = useState('');
+  const [editExpiry, setEditExpiry] = useState(card.expiryDate || '');
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    if (!showDetails || revealSeconds <= 0) return;
+    const timeout = setTimeout(() => setShowDetails(false), revealSeconds * 1000);
+    return () => clearTimeout(timeout);
+  }, [showDetails, revealSeconds]);
+
+  const saveBalance = () => { const val = parseFloat(editBalance); if (!isNaN(val)) { onUpdateBalance(card.id, val, editExpiry !== (card.expiryDate || '') ? editExpiry : undefined, 'manual', editNote.trim() || undefined); setEditNote(''); setIsEditing(false); } };
+  const copyToClipboard = (text: string) => { navigator.clipboard.writeText(text); };
+  // Grouped in fours whatever the issuer's length; masked numbers keep their real length
+  const formatCardNumber = (num: string) => (showDetails ? num : '•'.repeat(Math.max(num.length - 4, 0)) + num.slice(-4)).replace(/(.{4})/g, '$1 ').trim();
+  const brand = getCardBrand(card);
+  const cardStyle = isArchived ? "bg-gray-500 grayscale" : "";
+
+  return (
+    <div className={`relative overflow-hidden rounded-2xl shadow-xl transition-all duration-300 hover:scale-[1.02] hover:shadow-2xl ${cardStyle} text-white`} style={isArchived ? undefined : { backgroundImage: brandGradient(brand) }}>
+      <div className="absolute -top-10 -right-10 w-40 h-40 bg-white opacity-10 rounded-full blur-2xl"></div>
+      <div className="absolute bottom-0 left-0 w-32 h-32 bg-black opacity-10 rounded-full blur-xl"></div>
+      {isArchived && <div className="absolute top-3 right-3 z-20 bg-black/40 backdrop-blur px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border border-white/20">{card.balance === 0 ? 'Empty' : 'Expired'}</div>}
+      <div className="p-6 relative z-10">
+        <div className="flex justify-between items-start mb-6">
+          <div className="flex items-center gap-2"><div className="bg-white/20 p-2 rounded-lg backdrop-blur-sm"><Gift className="w-5 h-5 text-white" /></div><div><span className="font-bold tracking-widest text-sm opacity-90 uppercase">{brand.name} Card</span>{card.sharedWith && <button onClick={() => onClearShared && confirm(`Mark this card as no longer shared with ${card.sharedWith!.name}?`) && onClearShared(card.id)} className="flex items-center gap-1 mt-1 text-[10px] font-medium bg-black/25 px-2 py-0.5 rounded-full backdrop-blur-sm" title={`Shared ${new Date(card.sharedWith.at).toLocaleDateString()}`}><Share2 className="w-3 h-3" /> Shared with {card.sharedWith.name}</button>}</div></div>
+          <div className="text-right">
+             <p className="text-xs opacity-75 font-medium uppercase tracking-wider mb-1">Current Balance</p>
+             {isEditing ? (
+               <div className="flex flex-col items-end gap-1"><div className="flex items-center justify-end gap-2"><input type="number" value={editBalance} onChange={(e) => setEditBalance(e.target.value)} className="w-24 px-2 py-1 text-black text-lg font-bold rounded" autoFocus /><button onClick={saveBalance} className="bg-green-500 p-1 rounded hover:bg-green-600"><Check className="w-4 h-4" /></button><button onClick={() => setIsEditing(false)} className="bg-red-800 p-1 rounded hover:bg-red-900"><X className="w-4 h-4" /></button></div><input type="date" value={editExpiry} onChange={(e) => setEditExpiry(e.target.value)} className="w-40 px-2 py-1 text-black text-xs rounded" title="Expiry date" /><input type="text" value={editNote} onChange={(e) => setEditNote(e.target.value)} className="w-40 px-2 py-1 text-black text-xs rounded" placeholder="Note (optional)" /></div>
+             ) : (
+               <div className="flex flex-col items-end"><div className="flex items-center justify-end gap-2 group"><h2 className="text-3xl font-extrabold tracking-tight">₹{card.balance.toFixed(2)}</h2><button onClick={() => { setEditBalance(card.balance.toString()); setEditExpiry(card.expiryDate || ''); setIsEditing(true); }} className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-white/10 rounded"><Edit3 className="w-4 h-4" /></button></div>{card.expiryDate && <p className={`text-[10px] font-medium mt-1 bg-black/20 px-2 py-0.5 rounded backdrop-blur-sm ${isArchived && card.balance > 0 ? 'text-red-200 bg-red-900/40' : 'text-white/90'}`}>Exp: {formatExpiry(card.expiryDate)}</p>}{!card.expiryDate && card.expiryText && <p className="text-[10px] font-medium mt-1 bg-amber-900/40 text-amber-100 px-2 py-0.5 rounded backdrop-blur-sm" title="Couldn't read this date. Edit the card to set it again.">Exp: {card.expiryText}?</p>}</div>
+             )}
+          </div>
+        </div>
+        <div className="space-y-4 mb-6">
+          <div className="flex flex-col gap-4">
+             <div className="space-y-1"><div className="flex justify-between items-center"><p className="text-xs opacity-60 uppercase tracking-widest">Card Number</p><button onClick={() => copyToClipboard(card.cardNumber)} className="text-xs opacity-60 hover:opacity-100 flex items-center gap-1"><Copy className="w-3 h-3" /> Copy</button></div><p className="font-mono text-xl tracking-widest drop-shadow-sm truncate">{formatCardNumber(card.cardNumber)}</p></div>
+             <div className="flex justify-between items-end"><div className="space-y-1">{card.pin ? <><p className="text-xs opacity-60 uppercase tracking-widest">PIN</p><p className="font-mono text-lg tracking-widest">{showDetails ? card.pin : `••${card.pin.slice(-2)}`}</p></> : <p className="text-xs opacity-60 uppercase tracking-widest">No PIN</p>}</div><button onClick={() => setShowDetails(!showDetails)} className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/20 hover:bg-black/30 transition-colors text-sm font-medium backdrop-blur-sm">{showDetails ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />} {showDetails ? 'Hide' : 'Show'}</button></div>
+          </div>
+        </div>
+        <div className="flex items-center justify-between pt-4 border-t border-white/20">
+          <div className="flex flex-col gap-0.5"><div className="flex items-center gap-2 text-xs opacity-75"><div className={`w-2 h-2 rounded-full ${isArchived ? 'bg-gray-400' : 'bg-green-400'}`}></div><span>Updated {new Date(card.lastUpdated).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span></div>{brand.website && <a href={brand.website} target="_blank" rel="noopener noreferrer" className="text-[10px] text-white/60 hover:text-white underline flex items-center gap-1 mt-1">Check Official Site <ExternalLink className="w-3 h-3" /></a>}</div>
+          <div className="flex gap-2"><button onClick={() => setShowHistory(!showHistory)} className={`p-2 rounded-full backdrop-blur-md transition-all active:scale-95 ${showHistory ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`} title="History"><History className="w-5 h-5" /></button>{onShare && <button onClick={() => onShare(card)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 backdrop-blur-md transition-all active:scale-95" title="Share card"><Share2 className="w-5 h-5" /></button>}{onPresent && <button onClick={() => onPresent(card)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 backdrop-blur-md transition-all active:scale-95" title="Pay with this card"><QrCode className="w-5 h-5" /></button>}{brand.balanceCheck.method !== 'manual' && <button onClick={() => onCheckBalance(card)} className="px-3 py-2 rounded-full bg-white hover:bg-gray-100 font-bold text-xs flex items-center gap-2 transition-all active:scale-95 shadow-md" style={{ color: brand.colors.from }}><RefreshCw className="w-4 h-4" /> Check</button>}<button onClick={() => onDelete(card.id)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 hover:text-red-200 backdrop-blur-md transition-all active:scale-95"><Trash2 className="w-5 h-5" /></button></div>
+        </div>
+        {showHistory && <CardHistory history={card.history || []} />}
+      </div>
+    </div>
+  );
+};
+
+const CardHistory = ({ history }: { history: BalanceHistoryEntry[] }) => {
+  const entries = [...history].sort((a, b) => b.at - a.at);
+  return (
+    <div className="mt-4 pt-4 border-t border-white/20 space-y-3 animate-in slide-in-from-top-2 duration-200">
+      <div className="flex justify-between items-center">
+        <p className="text-xs opacity-60 uppercase tracking-widest">History</p>
+        <p className="text-xs font-medium">Total spent: <span className="font-bold">₹{getTotalSpent(history).toFixed(2)}</span></p>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-xs opacity-60">No balance changes recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-white/30 ml-1 space-y-3 max-h-60 overflow-y-auto">
+          {entries.map((e, i) => (
+            <li key={`${e.at}-${i}`} className="pl-4 relative">
+              <div className={`absolute -left-[5px] top-1 w-2 h-2 rounded-full ${e.newBalance < e.previousBalance ? 'bg-red-200' : 'bg-green-300'}`}></div>
+              <div className="flex justify-between text-xs">
+                <span className="font-medium">{HISTORY_SOURCE_LABELS[e.source]}</span>
+                <span className="font-mono">₹{e.previousBalance.toFixed(2)} → ₹{e.newBalance.toFixed(2)}</span>
+              </div>
+              <p className="text-[10px] opacity-60">{new Date(e.at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</p>
+              {e.note && <p className="text-[10px] opacity-80 italic">{e.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const PaymentPlannerModal = ({ isOpen, onClose, cards, defaultBrand, onConfirm }: { isOpen: boolean, onClose: () => void, cards: GiftCard[], defaultBrand: string | null, onConfirm: (plan: PaymentPlan, total: number) => void }) => {
+  const [amount, setAmount] = useState('');
+  const [strategy, setStrategy] = useState<PaymentStrategy>('fewest');
+  const [brandId, setBrandId] = useState(DEFAULT_BRAND_ID);
+
+  // Only brands the user actually holds; a bill is paid with one brand's cards
+  const brands = BRANDS.filter(b => cards.some(c => getCardBrand(c).id === b.id));
+
+  useEffect(() => {
+    if (isOpen) {
+      setAmount('');
+      setBrandId(defaultBrand && brands.some(b => b.id === defaultBrand) ? defaultBrand : brands[0]?.id ?? DEFAULT_BRAND_ID);
+    }
+  }, [isOpen]);
+
+  const total = Number(amount) || 0;
+  const brandCards = useMemo(() => cards.filter(c => getCardBrand(c).id === brandId), [cards, brandId]);
+  const plan = useMemo(() => total > 0 ? planPayment(brandCards, total, strategy) : null, [brandCards, total, strategy]);
+
+  if (!isOpen) return null;
+
+  const handleConfirm = () => {
+    if (!plan || plan.lines.length === 0) return;
+    const summary = plan.lines.map(l => `•••• ${l.card.cardNumber.slice(-4)}: ₹${l.amount.toFixed(2)}`).join('\n');
+    if (confirm(`Deduct from ${plan.lines.length} card(s)?\n\n${summary}${plan.shortfall > 0 ? `\n\nStill to pay another way: ₹${plan.shortfall.toFixed(2)}` : ''}`)) onConfirm(plan, total);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-md rounded-2xl overflow-hidden shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b bg-gray-50 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><Calculator className="w-5 h-5 text-red-600" /> Plan a Payment</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+        </div>
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1"><label className="block text-sm font-medium text-gray-700 mb-1">Bill Amount</label><input type="number" min={0} value={amount} onChange={e => setAmount(e.target.value)} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="₹0.00" autoFocus /></div>
+            {brands.length > 1 && <div><label className="block text-sm font-medium text-gray-700 mb-1">Brand</label><select value={brandId} onChange={e => setBrandId(e.target.value)} className="p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none bg-white">{brands.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}</select></div>}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {PAYMENT_STRATEGIES.map(s => (
+              <button key={s.id} onClick={() => setStrategy(s.id)} className={`py-2 px-1 rounded-lg text-xs font-bold border ${strategy === s.id ? 'bg-red-600 text-white border-red-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}>{s.label}</button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500">{PAYMENT_STRATEGIES.find(s => s.id === strategy)!.description}</p>
+          {plan && (
+            <div className="space-y-2">
+              {plan.lines.length === 0 && <p className="text-sm text-gray-500 text-center py-4">No {getBrand(brandId).name} cards with a balance.</p>}
+              {plan.lines.map(({ card, amount: pay }) => (
+                <div key={card.id} className="flex items-center justify-between text-xs bg-gray-50 px-3 py-2 rounded-lg border border-gray-100">
+                  <div>
+                    <p className="font-mono text-gray-700">•••• {card.cardNumber.slice(-4)}</p>
+                    <p className="text-[10px] text-gray-400">{card.expiryDate ? `Exp ${formatExpiry(card.expiryDate)}` : 'No expiry'}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-gray-800">Pay ₹{pay.toFixed(2)}</p>
+                    <p className="text-[10px] text-gray-400">Leaves ₹{((toPaise(card.balance) - toPaise(pay)) / 100).toFixed(2)}</p>
+                  </div>
+                </div>
+              ))}
+              {plan.shortfall > 0 && plan.lines.length > 0 && <div className="bg-amber-50 text-amber-800 text-xs p-3 rounded-lg flex items-center gap-2"><AlertCircle className="w-4 h-4 shrink-0" /> Cards cover ₹{(total - plan.shortfall).toFixed(2)}. Pay the remaining ₹{plan.shortfall.toFixed(2)} another way.</div>}
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t flex gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 font-medium hover:bg-gray-100 rounded-lg text-sm">Cancel</button>
+          <button onClick={handleConfirm} disabled={!plan || plan.lines.length === 0} className="flex-1 bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors shadow-lg shadow-red-200 disabled:opacity-50">Deduct from {plan?.lines.length || 0} Card(s)</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Keeps the screen on while the calling component is mounted
+const useScreenWakeLock = () => {
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+    const acquire = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (released) lock.release(); else sentinel = lock;
+      } catch (err) {
+        console.warn("Wake lock unavailable", err);
+      }
+    };
+    // The browser drops the lock whenever the page is hidden
+    const handleVisibility = () => { if (document.visibilityState === 'visible') acquire(); };
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      sentinel?.release();
+    };
+  }, []);
+};
+
+const Code128Barcode = ({ value }: { value: string }) => {
+  const widths = useMemo(() => { try { return encodeCode128(value); } catch { return null; } }, [value]);
+  if (!widths) return null;
+  const quiet = 10;
+  let x = quiet;
+  const bars = widths.map((w, i) => { const bar = i % 2 === 0 ? <rect key={i} x={x} y={0} width={w} height={40} /> : null; x += w; return bar; });
+  return <svg viewBox={`0 0 ${x + quiet} 40`} preserveAspectRatio="none" className="w-full h-24" shapeRendering="crispEdges" role="img" aria-label={`Barcode ${value}`}><rect width="100%" height="100%" fill="#fff" /><g fill="#000">{bars}</g></svg>;
+};
 
-  const handleReset = () => {
-    if (confirm("⚠️ Forgot PIN?\n\nResetting the app will DELETE ALL SAVED CARDS.\n\nContinue?")) {
-      localStorage.clear();
-      window.location.reload();
-    }
+const QRCodeImage = ({ value, className = '' }: { value: string, className?: string }) => {
+  const modules = useMemo(() => { try { return encodeQR(value); } catch { return null; } }, [value]);
+  if (!modules) return null;
+  const quiet = 4;
+  const size = modules.length + quiet * 2;
+  // One path for all dark modules keeps the DOM small
+  const path = modules.flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quiet},${y + quiet}h1v1h-1z` : ''))).join('');
+  return <svg viewBox={`0 0 ${size} ${size}`} className={className} shapeRendering="crispEdges" role="img" aria-label="QR code"><rect width={size} height={size} fill="#fff" /><path d={path} fill="#000" /></svg>;
+};
+
+// Full-screen, high-contrast view to show at the till. Keeps the screen awake while open and asks what
+// was spent on the way out, so the balance stays right without a separate balance check.
+const QuickPayScreen = ({ card, onClose, onDeduct }: { card: GiftCard, onClose: () => void, onDeduct: (card: GiftCard, amount: number) => void }) => {
+  const [isAskingSpend, setIsAskingSpend] = useState(false);
+  const [spent, setSpent] = useState('');
+  const [error, setError] = useState('');
+  const brand = getCardBrand(card);
+
+  useScreenWakeLock();
+
+  const handleDeduct = () => {
+    const amount = Number(spent);
+    if (!(amount > 0)) { setError("Enter the amount you spent."); return; }
+    if (toPaise(amount) > toPaise(card.balance)) { setError(`That's more than the ₹${card.balance.toFixed(2)} on this card.`); return; }
+    onDeduct(card, amount);
+    onClose();
   };
 
-  const activePin = mode === 'CONFIRM' ? confirmPin : pin;
-  
   return (
-    <div className="min-h-screen bg-gradient-to-br from-[#E4002B] to-[#960018] flex items-center justify-center p-4">
-      <div className={`bg-white w-full max-w-xs rounded-3xl shadow-2xl overflow-hidden p-8 flex flex-col items-center ${shake ? 'animate-shake' : ''}`}>
-        <div className="bg-red-50 p-4 rounded-full mb-6">
-          {mode === 'LOGIN' ? <Lock className="w-8 h-8 text-red-600" /> : <KeyRound className="w-8 h-8 text-red-600" />}
+    <div className="fixed inset-0 z-[100] bg-white text-black flex flex-col overflow-y-auto">
+      <div className="flex justify-between items-center p-4 border-b-2 border-black shrink-0">
+        <div>
+          <p className="font-extrabold text-xl uppercase tracking-wider">{brand.name}</p>
+          <p className="text-sm font-medium">Balance ₹{card.balance.toFixed(2)}</p>
         </div>
-        <h2 className="text-xl font-bold text-gray-800 mb-2">
-          {mode === 'LOGIN' && "Welcome Back"}
-          {mode === 'SETUP' && "Set Security PIN"}
-          {mode === 'CONFIRM' && "Confirm PIN"}
-        </h2>
-        <p className="text-sm text-gray-500 mb-8 text-center h-5">
-          {error ? <span className="text-red-500 font-medium flex items-center justify-center gap-1"><AlertCircle className="w-3 h-3"/> {error}</span> : 
-            (mode === 'LOGIN' ? "Enter your 4-digit PIN" : mode === 'SETUP' ? "Create a 4-digit PIN" : "Re-enter to confirm")
-          }
-        </p>
-        <div className="flex gap-4 mb-8">
-          {[0, 1, 2, 3].map(i => (
-            <div key={i} className={`w-4 h-4 rounded-full transition-all duration-200 ${i < activePin.length ? 'bg-red-600 scale-110' : 'bg-gray-200'}`}></div>
-          ))}
+        {!isAskingSpend && <button onClick={() => setIsAskingSpend(true)} className="px-5 py-3 bg-black text-white rounded-lg font-bold text-lg">Done</button>}
+      </div>
+      {isAskingSpend ? (
+        <div className="flex-1 flex flex-col justify-center p-6 max-w-md w-full mx-auto space-y-4">
+          <h3 className="text-2xl font-extrabold">How much did you spend?</h3>
+          <input type="number" min={0} step="0.01" value={spent} onChange={e => { setSpent(e.target.value); setError(''); }} onKeyDown={e => e.key === 'Enter' && handleDeduct()} className="w-full p-4 border-2 border-black rounded-lg text-3xl font-bold outline-none" placeholder="₹0.00" autoFocus />
+          {error && <p className="text-red-700 font-medium flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {error}</p>}
+          <button onClick={handleDeduct} className="w-full py-4 bg-black text-white rounded-lg font-bold text-lg">Deduct from Card</button>
+          <button onClick={onClose} className="w-full py-3 border-2 border-black rounded-lg font-bold">Nothing Spent</button>
+          <button onClick={() => setIsAskingSpend(false)} className="w-full py-2 text-sm font-medium underline">Back to Card</button>
         </div>
-        <div className="grid grid-cols-3 gap-4 w-full mb-6">
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
-            <button key={num} onClick={() => handleDigit(num.toString())} className="aspect-square rounded-full bg-gray-50 hover:bg-gray-100 text-xl font-bold text-gray-700 active:scale-95">{num}</button>
-          ))}
-          <div className="aspect-square"></div>
-          <button onClick={() => handleDigit('0')} className="aspect-square rounded-full bg-gray-50 hover:bg-gray-100 text-xl font-bold text-gray-700 active:scale-95">0</button>
-          <button onClick={handleBackspace} className="aspect-square rounded-full hover:bg-red-50 text-red-600 flex items-center justify-center active:scale-95"><X className="w-6 h-6" /></button>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center gap-6 p-6 max-w-lg w-full mx-auto">
+          <Code128Barcode value={card.cardNumber} />
+          <p className="font-mono text-3xl font-bold tracking-widest text-center break-all">{card.cardNumber.replace(/(.{4})/g, '$1 ').trim()}</p>
+          <QRCodeImage value={card.cardNumber} className="w-56 h-56" />
+          {card.pin && (
+            <div className="text-center">
+              <p className="text-sm font-bold uppercase tracking-widest">PIN</p>
+              <p className="font-mono text-5xl font-extrabold tracking-[0.3em]">{card.pin}</p>
+            </div>
+          )}
         </div>
-        {mode === 'LOGIN' && <button onClick={handleReset} className="text-xs text-gray-400 underline hover:text-red-600">Forgot PIN? (Reset App)</button>}
-      </div>
-      <style>{`@keyframes shake { 0%, 100% { transform: translateX(0); } 25% { transform: translateX(-5px); } 75% { transform: translateX(5px); } } .animate-shake { animation: shake 0.3s ease-in-out; }`}</style>
+      )}
     </div>
   );
 };
 
-const InstallHelpModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
-  if (!isOpen) return null;
+// Creating the share marks the sender's card, so the same balance doesn't get spent twice
+const ShareCardModal = ({ card, onClose, onShared, onLeaveApp }: { card: GiftCard, onClose: () => void, onShared: (card: GiftCard, name: string) => void, onLeaveApp: () => void }) => {
+  const [recipient, setRecipient] = useState('');
+  const [share, setShare] = useState<{ code: string, link: string, json: string } | null>(null);
+  const [isSealing, setIsSealing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const brand = getCardBrand(card);
+
+  const handleCreate = async () => {
+    setIsSealing(true);
+    try {
+      const code = createTransferCode();
+      const sealed = await sealCardShare(card, code);
+      setShare({ code, link: cardShareLink(sealed), json: JSON.stringify(sealed, null, 2) });
+      onShared(card, recipient.trim());
+    } catch (err: any) {
+      alert(`Could not share the card: ${err.message}`);
+    } finally {
+      setIsSealing(false);
+    }
+  };
+
+  const copyLink = () => {
+    if (!share) return;
+    navigator.clipboard.writeText(share.link).then(() => setCopied(true)).catch(() => alert("Couldn't copy. Use the QR code or file instead."));
+  };
+
+  // The code is deliberately left out so the link and the code travel separately
+  const sendLink = () => {
+    if (!share) return;
+    onLeaveApp();
+    navigator.share({ title: `${brand.name} gift card`, url: share.link }).catch(() => {});
+  };
+
+  const downloadFile = () => {
+    if (!share) return;
+    const url = URL.createObjectURL(new Blob([share.json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${brand.id}_card_${card.cardNumber.slice(-4)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   return (
-    <div className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden">
-        <div className="p-5 border-b flex justify-between items-center bg-gray-50">
-          <h3 className="font-bold text-gray-800 flex items-center gap-2"><Download className="w-5 h-5 text-red-600" /> Install App</h3>
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl overflow-hidden shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b bg-gray-50 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><Share2 className="w-5 h-5 text-red-600" /> Share •••• {card.cardNumber.slice(-4)}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
         </div>
-        <div className="p-6 space-y-6">
-          <p className="text-sm text-gray-600">Install this website as an app on your phone for the best experience.</p>
-          <div className="space-y-4">
-            <div className="flex gap-4 items-start"><div className="bg-gray-100 p-2 rounded-lg shrink-0"><Share2 className="w-6 h-6 text-blue-500" /></div><div><p className="font-bold text-sm text-gray-800">iPhone (Safari)</p><p className="text-xs text-gray-500 mt-1">Tap <strong>Share</strong>, then <span className="font-semibold bg-gray-100 px-1 rounded">Add to Home Screen</span>.</p></div></div>
-            <div className="w-full h-px bg-gray-100"></div>
-            <div className="flex gap-4 items-start"><div className="bg-gray-100 p-2 rounded-lg shrink-0"><MoreVertical className="w-6 h-6 text-green-600" /></div><div><p className="font-bold text-sm text-gray-800">Android (Chrome)</p><p className="text-xs text-gray-500 mt-1">Tap <strong>Menu</strong>, then <span className="font-semibold bg-gray-100 px-1 rounded">Install App</span>.</p></div></div>
-          </div>
-          <button onClick={onClose} className="w-full bg-red-600 text-white py-3 rounded-xl font-bold hover:bg-red-700 transition-colors">Got it</button>
+        <div className="p-4 overflow-y-auto space-y-4">
+          {!share ? (
+            <>
+              <p className="text-sm text-gray-600">The card is encrypted with a one-time code. Send the link, QR code or file one way and tell them the code another way.</p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sharing with</label>
+                <input type="text" value={recipient} onChange={e => setRecipient(e.target.value)} onKeyDown={e => e.key === 'Enter' && recipient.trim() && handleCreate()} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="e.g. Priya" maxLength={40} autoFocus />
+              </div>
+              <button onClick={handleCreate} disabled={isSealing || !recipient.trim()} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">{isSealing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />} Create Share</button>
+            </>
+          ) : (
+            <>
+              <QRCodeImage value={share.link} className="w-56 h-56 mx-auto" />
+              <div className="grid grid-cols-3 gap-2">
+                <button onClick={copyLink} className="flex flex-col items-center gap-1 p-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-xs font-medium">{copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />} {copied ? 'Copied' : 'Copy Link'}</button>
+                {'share' in navigator ? (
+                  <button onClick={sendLink} className="flex flex-col items-center gap-1 p-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-xs font-medium"><Send className="w-4 h-4" /> Send Link</button>
+                ) : <div></div>}
+                <button onClick={downloadFile} className="flex flex-col items-center gap-1 p-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-xs font-medium"><Download className="w-4 h-4" /> File</button>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-center">
+                <p className="text-xs text-gray-500">One-time code for {recipient.trim()}</p>
+                <p className="font-mono text-2xl font-bold tracking-widest text-gray-800 mt-1">{share.code}</p>
+                <p className="text-[10px] text-gray-400 mt-1">It isn't stored anywhere. Pass it on before closing this.</p>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-const CardItem: React.FC<CardItemProps> = ({ card, onDelete, onUpdateBalance, onCheckBalance, isArchived = false }) => {
-  const [showDetails, setShowDetails] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
-  const [editBalance, setEditBalance] = useState(card.balance.toString());
-  const saveBalance = () => { const val = parseFloat(editBalance); if (!isNaN(val)) { onUpdateBalance(card.id, val); setIsEditing(false); } };
-  const copyToClipboard = (text: string) => { navigator.clipboard.writeText(text); };
-  const formatCardNumber = (num: string) => showDetails ? num.replace(/(.{4})/g, '$1 ').trim() : `•••• •••• •••• ${num.slice(-4)}`;
-  const cardStyle = isArchived ? "bg-gray-500 grayscale" : "bg-gradient-to-br from-[#E4002B] to-[#960018]";
+const ReceiveShareModal = ({ share, onClose, onAdd }: { share: CardShare, onClose: () => void, onAdd: (card: NewCardData) => void }) => {
+  const [code, setCode] = useState('');
+  const [card, setCard] = useState<NewCardData | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleOpen = async () => {
+    setIsOpening(true);
+    setError('');
+    try {
+      const opened = await openCardShare(share, code);
+      if (opened) setCard(opened);
+      else setError("That code doesn't match. Check it with the person who shared the card.");
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsOpening(false);
+    }
+  };
 
   return (
-    <div className={`relative overflow-hidden rounded-2xl shadow-xl transition-all duration-300 hover:scale-[1.02] hover:shadow-2xl ${cardStyle} text-white`}>
-      <div className="absolute -top-10 -right-10 w-40 h-40 bg-white opacity-10 rounded-full blur-2xl"></div>
-      <div className="absolute bottom-0 left-0 w-32 h-32 bg-black opacity-10 rounded-full blur-xl"></div>
-      {isArchived && <div className="absolute top-3 right-3 z-20 bg-black/40 backdrop-blur px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border border-white/20">{card.balance === 0 ? 'Empty' : 'Expired'}</div>}
-      <div className="p-6 relative z-10">
-        <div className="flex justify-between items-start mb-6">
-          <div className="flex items-center gap-2"><div className="bg-white/20 p-2 rounded-lg backdrop-blur-sm"><Gift className="w-5 h-5 text-white" /></div><span className="font-bold tracking-widest text-sm opacity-90">KFC CARD</span></div>
-          <div className="text-right">
-             <p className="text-xs opacity-75 font-medium uppercase tracking-wider mb-1">Current Balance</p>
-             {isEditing ? (
-               <div className="flex items-center justify-end gap-2"><input type="number" value={editBalance} onChange={(e) => setEditBalance(e.target.value)} className="w-24 px-2 py-1 text-black text-lg font-bold rounded" autoFocus /><button onClick={saveBalance} className="bg-green-500 p-1 rounded hover:bg-green-600"><Check className="w-4 h-4" /></button><button onClick={() => setIsEditing(false)} className="bg-red-800 p-1 rounded hover:bg-red-900"><X className="w-4 h-4" /></button></div>
-             ) : (
-               <div className="flex flex-col items-end"><div className="flex items-center justify-end gap-2 group"><h2 className="text-3xl font-extrabold tracking-tight">₹{card.balance.toFixed(2)}</h2><button onClick={() => setIsEditing(true)} className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-white/10 rounded"><Edit3 className="w-4 h-4" /></button></div>{card.expiryDate && <p className={`text-[10px] font-medium mt-1 bg-black/20 px-2 py-0.5 rounded backdrop-blur-sm ${isArchived && card.balance > 0 ? 'text-red-200 bg-red-900/40' : 'text-white/90'}`}>Exp: {card.expiryDate}</p>}</div>
-             )}
-          </div>
-        </div>
-        <div className="space-y-4 mb-6">
-          <div className="flex flex-col gap-4">
-             <div className="space-y-1"><div className="flex justify-between items-center"><p className="text-xs opacity-60 uppercase tracking-widest">Card Number</p><button onClick={() => copyToClipboard(card.cardNumber)} className="text-xs opacity-60 hover:opacity-100 flex items-center gap-1"><Copy className="w-3 h-3" /> Copy</button></div><p className="font-mono text-xl tracking-widest drop-shadow-sm truncate">{formatCardNumber(card.cardNumber)}</p></div>
-             <div className="flex justify-between items-end"><div className="space-y-1"><p className="text-xs opacity-60 uppercase tracking-widest">PIN</p><p className="font-mono text-lg tracking-widest">{showDetails ? card.pin : `••${card.pin.slice(-2)}`}</p></div><button onClick={() => setShowDetails(!showDetails)} className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/20 hover:bg-black/30 transition-colors text-sm font-medium backdrop-blur-sm">{showDetails ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />} {showDetails ? 'Hide' : 'Show'}</button></div>
-          </div>
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-sm rounded-2xl overflow-hidden shadow-2xl">
+        <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><Gift className="w-5 h-5 text-red-600" /> Shared Gift Card</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
         </div>
-        <div className="flex items-center justify-between pt-4 border-t border-white/20">
-          <div className="flex flex-col gap-0.5"><div className="flex items-center gap-2 text-xs opacity-75"><div className={`w-2 h-2 rounded-full ${isArchived ? 'bg-gray-400' : 'bg-green-400'}`}></div><span>Updated {new Date(card.lastUpdated).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span></div><a href="https://gift.kfc.co.in/balance" target="_blank" rel="noopener noreferrer" className="text-[10px] text-white/60 hover:text-white underline flex items-center gap-1 mt-1">Check Official Site <ExternalLink className="w-3 h-3" /></a></div>
-          <div className="flex gap-2"><button onClick={() => onCheckBalance(card)} className="px-3 py-2 rounded-full bg-white text-red-700 hover:bg-gray-100 font-bold text-xs flex items-center gap-2 transition-all active:scale-95 shadow-md"><RefreshCw className="w-4 h-4" /> Check</button><button onClick={() => onDelete(card.id)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 hover:text-red-200 backdrop-blur-md transition-all active:scale-95"><Trash2 className="w-5 h-5" /></button></div>
+        <div className="p-4 space-y-3">
+          {!card ? (
+            <>
+              <p className="text-sm text-gray-600">Someone shared a gift card with you. Enter the code they gave you to open it.</p>
+              <input type="text" value={code} onChange={e => setCode(normalizeTransferCode(e.target.value))} onKeyDown={e => e.key === 'Enter' && handleOpen()} className="w-full p-3 border border-gray-300 rounded-lg font-mono text-lg tracking-widest text-center uppercase focus:ring-2 focus:ring-red-500 outline-none" placeholder="XXXX-XXXX-XXXX" autoCapitalize="characters" autoComplete="off" autoFocus />
+              <button onClick={handleOpen} disabled={isOpening || code.length < 14} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 disabled:opacity-50 flex items-center justify-center gap-2">{isOpening ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />} Open</button>
+            </>
+          ) : (
+            <>
+              <div className="rounded-xl p-4 text-white" style={{ backgroundImage: brandGradient(getBrand(card.brand)) }}>
+                <p className="text-xs font-bold uppercase tracking-widest opacity-90">{getBrand(card.brand).name} Card</p>
+                <p className="font-mono text-lg tracking-widest mt-2">•••• {card.cardNumber.slice(-4)}</p>
+                <p className="text-2xl font-extrabold mt-1">₹{card.balance.toFixed(2)}</p>
+                {card.expiryDate && <p className="text-[10px] opacity-90">Exp: {formatExpiry(card.expiryDate)}</p>}
+              </div>
+              <button onClick={() => onAdd(card)} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 flex items-center justify-center gap-2"><Plus className="w-4 h-4" /> Add to My Cards</button>
+            </>
+          )}
+          {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3 shrink-0" /> {error}</p>}
         </div>
       </div>
     </div>
   );
 };
 
-const SMSUpdateModal = ({ isOpen, onClose, card, onProcess }: { isOpen: boolean, onClose: () => void, card: GiftCard | null, onProcess: (text: string) => void }) => {
+// initialText skips straight to step 2 with a reply that was shared into the app or found on the clipboard
+const SMSUpdateModal = ({ isOpen, onClose, card, initialText, onProcess, onLeaveApp }: { isOpen: boolean, onClose: () => void, card: GiftCard | null, initialText?: string, onProcess: (text: string) => void, onLeaveApp: () => void }) => {
   const [text, setText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [step, setStep] = useState<1 | 2>(1);
   const [justReturned, setJustReturned] = useState(false);
-  useEffect(() => { if (isOpen) { setText(''); setStep(1); setJustReturned(false); } }, [isOpen]);
+  useEffect(() => { if (isOpen) { setText(initialText || ''); setStep(initialText ? 2 : 1); setJustReturned(false); } }, [isOpen, initialText]);
   useEffect(() => { const handleFocus = () => { if (isOpen && step === 2) { setJustReturned(true); setTimeout(() => setJustReturned(false), 3000); } }; window.addEventListener('focus', handleFocus); return () => window.removeEventListener('focus', handleFocus); }, [isOpen, step]);
   const handleSubmit = async () => { if (!text.trim()) return; setIsProcessing(true); await onProcess(text); setIsProcessing(false); };
-  const handleSendSMS = () => { if (!card) return; const recipient = "55757575"; const body = card.cardNumber; const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent); const separator = isIOS ? '&' : '?'; window.location.href = `sms:${recipient}${separator}body=${encodeURIComponent(body)}`; setStep(2); };
+  const handleSendSMS = () => { if (!card) return; const check = getCardBrand(card).balanceCheck; if (check.method !== 'sms') return; const body = fillBalanceTemplate(check.body, card); const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent); const separator = isIOS ? '&' : '?'; onLeaveApp(); window.location.href = `sms:${check.number}${separator}body=${encodeURIComponent(body)}`; setStep(2); };
+  const handleOpenBalancePage = () => { if (!card) return; const check = getCardBrand(card).balanceCheck; if (check.method !== 'url') return; onLeaveApp(); window.open(check.url, '_blank', 'noopener'); setStep(2); };
   const handlePaste = async () => { try { const clipboardText = await navigator.clipboard.readText(); if (clipboardText) setText(clipboardText); else alert('Clipboard is empty.'); } catch (err) { alert('Tap inside the box and select "Paste" manually.'); } };
   if (!isOpen || !card) return null;
+  const brand = getCardBrand(card);
+  const check = brand.balanceCheck;
   return (
     <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
       <div className="bg-white w-full max-w-sm rounded-xl shadow-2xl overflow-hidden">
-        <div className="bg-gray-50 p-4 border-b flex justify-between items-center"><h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><MessageSquare className="w-5 h-5 text-red-600" /> Check Balance via SMS</h3><button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button></div>
+        <div className="bg-gray-50 p-4 border-b flex justify-between items-center"><h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><MessageSquare className="w-5 h-5 text-red-600" /> Check Balance {check.method === 'sms' ? 'via SMS' : 'Online'}</h3><button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button></div>
         <div className="p-6">
           <div className="flex items-center justify-center mb-6"><div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold transition-colors ${step === 1 ? 'bg-red-600 text-white' : 'bg-green-500 text-white'}`}>1</div><div className={`w-12 h-1 transition-colors ${step === 2 ? 'bg-green-500' : 'bg-gray-200'}`}></div><div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold transition-colors ${step === 2 ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-500'}`}>2</div></div>
           {step === 1 ? (
             <div className="text-center space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
-              <div className="bg-blue-50 text-blue-800 text-sm p-4 rounded-xl text-left shadow-sm border border-blue-100"><p className="font-semibold mb-2">Instructions:</p><ul className="list-decimal pl-4 space-y-1 text-blue-900/80"><li>Click button to open SMS app.</li><li>Send pre-filled code to <strong>55757575</strong>.</li><li><strong>Copy the reply</strong> you get from KFC.</li><li>Return here to auto-update.</li></ul></div>
-              <div className="py-2 opacity-50"><p className="text-[10px] text-gray-400 uppercase tracking-widest">SENDING FOR CARD</p><p className="font-mono text-xs">{card.cardNumber}</p></div>
-              <button onClick={handleSendSMS} className="w-full bg-red-600 text-white py-4 rounded-xl font-bold hover:bg-red-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-red-200 active:scale-95"><Send className="w-5 h-5" /> Open SMS App</button>
+              <div className="bg-blue-50 text-blue-800 text-sm p-4 rounded-xl text-left shadow-sm border border-blue-100"><p className="font-semibold mb-2">Instructions:</p>{check.method === 'sms' ? (
+                <ul className="list-decimal pl-4 space-y-1 text-blue-900/80"><li>Click button to open SMS app.</li><li>Send pre-filled code to <strong>{check.number}</strong>.</li><li><strong>Copy the reply</strong> you get from {brand.name}.</li><li>Return here to auto-update.</li></ul>
+              ) : (
+                <ul className="list-decimal pl-4 space-y-1 text-blue-900/80"><li>Open the {brand.name} balance page.</li><li>Look up this card there.</li><li><strong>Copy the balance text</strong> from the page.</li><li>Return here to auto-update.</li></ul>
+              )}</div>
+              <div className="py-2 opacity-50"><p className="text-[10px] text-gray-400 uppercase tracking-widest">{check.method === 'sms' ? 'SENDING FOR CARD' : 'CHECKING CARD'}</p><p className="font-mono text-xs">{card.cardNumber}</p></div>
+              {check.method === 'sms'
+                ? <button onClick={handleSendSMS} className="w-full bg-red-600 text-white py-4 rounded-xl font-bold hover:bg-red-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-red-200 active:scale-95"><Send className="w-5 h-5" /> Open SMS App</button>
+                : <button onClick={handleOpenBalancePage} className="w-full bg-red-600 text-white py-4 rounded-xl font-bold hover:bg-red-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-red-200 active:scale-95"><ExternalLink className="w-5 h-5" /> Open Balance Page</button>}
               <button onClick={() => setStep(2)} className="text-xs text-gray-400 underline hover:text-gray-600 mt-2">Already sent? Skip to Step 2</button>
             </div>
           ) : (
@@ -614,69 +4238,217 @@ const SMSUpdateModal = ({ isOpen, onClose, card, onProcess }: { isOpen: boolean,
   );
 };
 
-const AddCardModal = ({ isOpen, onClose, onAdd, openSettings }: { isOpen: boolean, onClose: () => void, onAdd: (cards: NewCardData[]) => void, openSettings: () => void }) => {
-  const [activeTab, setActiveTab] = useState<'manual' | 'email'>('manual');
-  const [formData, setFormData] = useState({ number: '', pin: '', balance: '' });
+// initialText opens on the text tab and runs the extractor on it, for shared or copied e-gift emails
+const AddCardModal = ({ isOpen, onClose, onAdd, openSettings, initialText, onLeaveApp }: { isOpen: boolean, onClose: () => void, onAdd: (cards: NewCardData[]) => void, openSettings: () => void, initialText?: string, onLeaveApp: () => void }) => {
+  const [activeTab, setActiveTab] = useState<'manual' | 'email' | 'image'>('manual');
+  const [formData, setFormData] = useState({ brand: DEFAULT_BRAND_ID, number: '', pin: '', balance: '', expiry: '' });
   const [emailText, setEmailText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState('');
+  const [reviewCards, setReviewCards] = useState<ExtractedCard[] | null>(null);
+  const [leftoverText, setLeftoverText] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<CardFieldErrors>({});
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imageText, setImageText] = useState('');
+  const [scanProgress, setScanProgress] = useState<number | null>(null);
+  const imagePreview = useMemo(() => imageFile ? URL.createObjectURL(imageFile) : '', [imageFile]);
+
+  useEffect(() => () => { if (imagePreview) URL.revokeObjectURL(imagePreview); }, [imagePreview]);
+
+  // Runs the offline extractor and opens the review step; returns false when nothing was found
+  const reviewExtractedText = (text: string, confidenceFactor = 1) => {
+    const { cards, leftover } = extractCardsFromText(text);
+    setLeftoverText(hasUnparsedCardData(leftover) ? leftover : '');
+    const brand = detectBrand(text) ?? DEFAULT_BRAND_ID;
+    if (cards.length === 0) return false;
+    setError(''); setReviewCards(cards.map(c => ({ ...c, brand, confidence: c.confidence * confidenceFactor })));
+    return true;
+  };
+
+  const parseEmailText = (text: string) => {
+    if (!text.trim()) return;
+    if (!reviewExtractedText(text)) setError(hasUnparsedCardData(text) ? 'Layout not recognised. Try the AI extractor.' : 'No gift cards found.');
+  };
+
+  useEffect(() => {
+    if (!isOpen || !initialText) return;
+    setActiveTab('email'); setEmailText(initialText); setReviewCards(null);
+    parseEmailText(initialText);
+  }, [isOpen, initialText]);
 
   if (!isOpen) return null;
 
+  const closeModal = () => { setReviewCards(null); setLeftoverText(''); setError(''); setFieldErrors({}); onClose(); };
+
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (formData.number.length < 4 || formData.pin.length < 2) { setError('Invalid card details'); return; }
-    onAdd([{ cardNumber: formData.number, pin: formData.pin, balance: Number(formData.balance) || 0 }]);
-    onClose(); setFormData({ number: '', pin: '', balance: '' }); setError('');
+    const balance = Number(formData.balance) || 0;
+    const { cardNumber, pin, errors } = validateCardFields({ cardNumber: formData.number, pin: formData.pin, brand: formData.brand, balance });
+    if (hasFieldErrors(errors)) { setFieldErrors(errors); return; }
+    onAdd([{ cardNumber, pin, balance, expiryDate: formData.expiry || undefined, brand: formData.brand }]);
+    onClose(); setFormData({ brand: formData.brand, number: '', pin: '', balance: '', expiry: '' }); setError(''); setFieldErrors({});
   };
 
   const handlePaste = async () => {
     try { const clipboardText = await navigator.clipboard.readText(); if (clipboardText) setEmailText(clipboardText); else alert('Clipboard is empty.'); } catch (err) { alert('Tap inside the box and select "Paste" manually.'); }
   };
 
-  const handleEmailParse = async () => {
-    if (!emailText.trim()) return;
-    if (!checkApiKeyConfigured(openSettings)) return;
+  const handleEmailParse = () => parseEmailText(emailText);
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImageFile(file); setImageText(''); setError('');
+  };
+
+  const handleImageScan = async () => {
+    if (!imageFile) return;
+    setIsProcessing(true); setError(''); setScanProgress(0);
+    try {
+      const text = cleanRecognizedText(await recognizeImageText(imageFile, setScanProgress));
+      setImageText(text);
+      if (!reviewExtractedText(text, OCR_CONFIDENCE_FACTOR)) {
+        setError(hasUnparsedCardData(text) ? 'The card number could not be read clearly. Edit the recognised text or try AI.' : 'No gift cards found in the image.');
+      }
+    } catch (err: any) {
+      setError(navigator.onLine ? `Couldn't read the image: ${err.message}` : "Couldn't download the text reader. Connect to the internet for the first scan, or type the card in.");
+    } finally { setIsProcessing(false); setScanProgress(null); }
+  };
+
+  // The photo itself only leaves the device here, when the user asks for it
+  const handleImageAIExtract = async () => {
+    if (!imageFile) return;
+    if (!checkAIConfigured(openSettings)) return;
     setIsProcessing(true); setError('');
     try {
-      const ai = getAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Analyze text, extract KFC India Gift Cards. Return JSON array of objects: {cardNumber, pin, amount}. Ignore credit cards. Input: ${emailText}`,
-        config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { cardNumber: { type: Type.STRING }, pin: { type: Type.STRING }, amount: { type: Type.NUMBER } }, required: ["cardNumber", "pin"] } } },
-      });
-      const extracted = JSON.parse(cleanAIResponse(response.text) || '[]');
+      const extracted = await getAIProvider().extractCardsFromImage(await prepareImageForAI(imageFile));
       if (extracted.length > 0) {
-        onAdd(extracted.map((c: any) => ({ cardNumber: c.cardNumber, pin: c.pin, balance: c.amount || 0 })));
-        onClose(); setEmailText('');
-      } else { setError('No KFC cards found.'); }
+        setLeftoverText('');
+        setReviewCards(extracted.map(c => ({ ...c, brand: c.brand ?? detectBrand(imageText) ?? DEFAULT_BRAND_ID, confidence: 0.5 })));
+      } else { setError('No gift cards found.'); }
     } catch (err: any) { setError(`Failed: ${err.message}`); } finally { setIsProcessing(false); }
   };
 
+  const editRecognizedText = () => { setEmailText(imageText); setError(''); setActiveTab('email'); };
+
+  // Only the text the offline extractor couldn't handle is sent to the AI
+  const handleAIExtract = async () => {
+    const text = leftoverText || emailText;
+    if (!text.trim()) return;
+    if (!checkAIConfigured(openSettings)) return;
+    setIsProcessing(true); setError('');
+    try {
+      const extracted = await getAIProvider().extractCards(text);
+      if (extracted.length > 0) {
+        const aiCards: ExtractedCard[] = extracted.map(c => ({ ...c, brand: c.brand ?? detectBrand(text) ?? DEFAULT_BRAND_ID, confidence: 0.5 }));
+        setReviewCards(prev => [...(prev || []), ...aiCards]);
+        setLeftoverText('');
+      } else { setError('No gift cards found.'); }
+    } catch (err: any) { setError(`Failed: ${err.message}`); } finally { setIsProcessing(false); }
+  };
+
+  const updateReviewCard = (index: number, changes: Partial<ExtractedCard>) => {
+    setReviewCards(prev => prev && prev.map((c, i) => i === index ? { ...c, ...changes } : c));
+  };
+
+  // Per-row problems, including the same card extracted twice (compared in normalised form)
+  const reviewErrors = (reviewCards || []).map((c, i, all) => {
+    const { cardNumber, errors } = validateCardFields(c);
+    const first = all.findIndex(other => normalizeCardNumber(other.cardNumber) === cardNumber);
+    if (!errors.cardNumber && first < i) errors.cardNumber = `Same card as row ${first + 1}`;
+    return errors;
+  });
+
+  const handleSaveReviewed = () => {
+    if (!reviewCards || reviewCards.length === 0 || reviewErrors.some(hasFieldErrors)) return;
+    onAdd(reviewCards.map(({ cardNumber, pin, balance, brand }) => ({ cardNumber, pin, balance, brand })));
+    setEmailText(''); setImageFile(null); setImageText('');
+    closeModal();
+  };
+
+  if (reviewCards) {
+    return (
+      <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-white w-full max-w-md rounded-2xl overflow-hidden shadow-2xl flex flex-col max-h-[90vh]">
+          <div className="p-4 border-b bg-gray-50 flex justify-between items-center shrink-0">
+            <h3 className="font-bold text-gray-800">Review {reviewCards.length} Card(s)</h3>
+            <button onClick={() => setReviewCards(null)} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto space-y-2">
+            {error && <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg flex items-center gap-2"><AlertCircle className="w-4 h-4" />{error}</div>}
+            <div className="grid grid-cols-[1fr_4.5rem_4rem_1.5rem] gap-2 text-[10px] text-gray-500 uppercase font-bold px-1"><span>Card Number</span><span>PIN</span><span>₹</span><span></span></div>
+            {reviewCards.map((c, i) => (
+              <div key={i} className="space-y-1">
+                <div className="grid grid-cols-[1fr_4.5rem_4rem_1.5rem] gap-2 items-center">
+                  <input value={c.cardNumber} onChange={e => updateReviewCard(i, { cardNumber: e.target.value })} className={`p-2 border rounded text-xs font-mono min-w-0 ${reviewErrors[i].cardNumber ? 'border-red-400 bg-red-50' : 'border-gray-300'}`} />
+                  <input value={c.pin} onChange={e => updateReviewCard(i, { pin: e.target.value })} className={`p-2 border rounded text-xs font-mono min-w-0 ${reviewErrors[i].pin ? 'border-red-400 bg-red-50' : 'border-gray-300'}`} />
+                  <input type="number" value={c.balance} onChange={e => updateReviewCard(i, { balance: Number(e.target.value) || 0 })} className={`p-2 border rounded text-xs min-w-0 ${reviewErrors[i].balance ? 'border-red-400 bg-red-50' : 'border-gray-300'}`} />
+                  <button onClick={() => setReviewCards(prev => prev && prev.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <div className="flex items-center justify-between gap-2 px-1">
+                  <p className={`text-[10px] ${c.confidence >= 0.8 ? 'text-green-600' : 'text-amber-600'}`}>{Math.round(c.confidence * 100)}% confidence{c.confidence < 0.8 && ' · please double-check'}</p>
+                  <select value={getCardBrand(c).id} onChange={e => updateReviewCard(i, { brand: e.target.value })} className="text-[10px] border border-gray-200 rounded px-1 py-0.5 bg-white">{BRANDS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}</select>
+                </div>
+                {hasFieldErrors(reviewErrors[i]) && <p className="text-[10px] text-red-600 px-1">{[reviewErrors[i].cardNumber, reviewErrors[i].pin, reviewErrors[i].balance].filter(Boolean).join(' · ')}</p>}
+              </div>
+            ))}
+            {leftoverText && (
+              <div className="bg-amber-50 border border-amber-100 p-3 rounded-lg text-xs text-amber-800 space-y-2">
+                <p>Some text looks like it contains more cards that weren't recognised.</p>
+                <button onClick={handleAIExtract} disabled={isProcessing} className="w-full bg-indigo-600 text-white py-2 rounded-lg font-bold hover:bg-indigo-700 flex items-center justify-center gap-2 disabled:opacity-50">{isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Smartphone className="w-4 h-4" />} Send Remaining Text to AI</button>
+              </div>
+            )}
+          </div>
+          <div className="p-4 border-t flex gap-3 shrink-0">
+            <button onClick={() => setReviewCards(null)} className="px-4 py-2 text-gray-500 font-medium hover:bg-gray-100 rounded-lg text-sm">Back</button>
+            <button onClick={handleSaveReviewed} disabled={reviewCards.length === 0 || reviewErrors.some(hasFieldErrors)} className="flex-1 bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors shadow-lg shadow-red-200 disabled:opacity-50">Save {reviewCards.length} Card(s)</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center p-4 backdrop-blur-sm">
       <div className="bg-white w-full max-w-md rounded-2xl overflow-hidden shadow-2xl">
         <div className="flex border-b">
           <button className={`flex-1 p-4 font-medium text-sm transition-colors ${activeTab === 'manual' ? 'text-red-600 border-b-2 border-red-600' : 'text-gray-500'}`} onClick={() => setActiveTab('manual')}>Manual Entry</button>
           <button className={`flex-1 p-4 font-medium text-sm transition-colors ${activeTab === 'email' ? 'text-red-600 border-b-2 border-red-600' : 'text-gray-500'}`} onClick={() => setActiveTab('email')}><div className="flex items-center justify-center gap-2"><Smartphone className="w-4 h-4" /><span>Import Text</span></div></button>
+          <button className={`flex-1 p-4 font-medium text-sm transition-colors ${activeTab === 'image' ? 'text-red-600 border-b-2 border-red-600' : 'text-gray-500'}`} onClick={() => setActiveTab('image')}><div className="flex items-center justify-center gap-2"><ImagePlus className="w-4 h-4" /><span>Import Image</span></div></button>
         </div>
         <div className="p-6">
           {error && <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg mb-4 flex items-center gap-2"><AlertCircle className="w-4 h-4" />{error}</div>}
           {activeTab === 'manual' ? (
             <form onSubmit={handleManualSubmit} className="space-y-4">
-              <div><label className="block text-sm font-medium text-gray-700 mb-1">Card Number</label><input type="text" value={formData.number} onChange={e => setFormData({...formData, number: e.target.value})} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="16-digit card number" required /></div>
-              <div className="flex gap-4"><div className="flex-1"><label className="block text-sm font-medium text-gray-700 mb-1">PIN</label><input type="text" value={formData.pin} onChange={e => setFormData({...formData, pin: e.target.value})} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="PIN" required /></div><div className="flex-1"><label className="block text-sm font-medium text-gray-700 mb-1">Initial Balance</label><input type="number" value={formData.balance} onChange={e => setFormData({...formData, balance: e.target.value})} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="₹0.00" /></div></div>
+              <div><label className="block text-sm font-medium text-gray-700 mb-1">Brand</label><select value={formData.brand} onChange={e => { setFormData({...formData, brand: e.target.value}); setFieldErrors({}); }} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none bg-white">{BRANDS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}</select></div>
+              <div><label className="block text-sm font-medium text-gray-700 mb-1">Card Number</label><input type="text" value={formData.number} onChange={e => { setFormData({...formData, number: e.target.value}); setFieldErrors({ ...fieldErrors, cardNumber: undefined }); }} className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-red-500 outline-none ${fieldErrors.cardNumber ? 'border-red-400' : 'border-gray-300'}`} placeholder={`Card number (${getBrand(formData.brand).cardNumber.description})`} required />{fieldErrors.cardNumber && <p className="text-xs text-red-600 mt-1">{fieldErrors.cardNumber}</p>}</div>
+              <div className="flex gap-4"><div className="flex-1"><label className="block text-sm font-medium text-gray-700 mb-1">PIN</label><input type="text" value={formData.pin} onChange={e => { setFormData({...formData, pin: e.target.value}); setFieldErrors({ ...fieldErrors, pin: undefined }); }} className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-red-500 outline-none disabled:bg-gray-50 ${fieldErrors.pin ? 'border-red-400' : 'border-gray-300'}`} placeholder={getBrand(formData.brand).pin ? 'PIN' : 'No PIN'} disabled={!getBrand(formData.brand).pin} required={!!getBrand(formData.brand).pin} />{fieldErrors.pin && <p className="text-xs text-red-600 mt-1">{fieldErrors.pin}</p>}</div><div className="flex-1"><label className="block text-sm font-medium text-gray-700 mb-1">Initial Balance</label><input type="number" value={formData.balance} onChange={e => { setFormData({...formData, balance: e.target.value}); setFieldErrors({ ...fieldErrors, balance: undefined }); }} className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-red-500 outline-none ${fieldErrors.balance ? 'border-red-400' : 'border-gray-300'}`} placeholder="₹0.00" />{fieldErrors.balance && <p className="text-xs text-red-600 mt-1">{fieldErrors.balance}</p>}</div></div>
+              <div><label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date <span className="text-gray-400 font-normal">(optional)</span></label><input type="date" value={formData.expiry} onChange={e => setFormData({...formData, expiry: e.target.value})} className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none" /></div>
               <button type="submit" className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors shadow-lg shadow-red-200">Save Card</button>
             </form>
+          ) : activeTab === 'image' ? (
+            <div className="space-y-4">
+              <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg"><p className="flex items-start gap-2"><ShieldCheck className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" /><span><strong>Privacy First:</strong> The image is read on your device. It is only sent to AI if you ask for it. Scratch off the PIN before taking the photo.</span></p><p className="flex items-start gap-2 mt-2 text-xs text-gray-500"><Download className="w-4 h-4 shrink-0" /><span>The first scan (and the first after an app update) needs an internet connection to download the text reader, a few MB. Your image is not uploaded.</span></p></div>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="py-3 bg-gray-50 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-100 flex items-center justify-center gap-2 transition-colors cursor-pointer text-sm"><Camera className="w-4 h-4" /> Take Photo<input type="file" accept="image/*" capture="environment" onClick={onLeaveApp} onChange={handleImageSelect} className="hidden" /></label>
+                <label className="py-3 bg-gray-50 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-100 flex items-center justify-center gap-2 transition-colors cursor-pointer text-sm"><Upload className="w-4 h-4" /> Choose Image<input type="file" accept="image/*" onClick={onLeaveApp} onChange={handleImageSelect} className="hidden" /></label>
+              </div>
+              {imagePreview && <img src={imagePreview} alt="Selected gift card" className="w-full max-h-48 object-contain rounded-lg border border-gray-200 bg-gray-50" />}
+              <button onClick={handleImageScan} disabled={isProcessing || !imageFile} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors shadow-lg shadow-red-200 flex items-center justify-center gap-2 disabled:opacity-50">{scanProgress !== null ? <><Loader2 className="w-5 h-5 animate-spin" /> Reading Image... {Math.round(scanProgress * 100)}%</> : <><ScanLine className="w-5 h-5" /> Read Cards</>}</button>
+              {imageText.trim() && <button onClick={editRecognizedText} className="w-full py-2 text-sm text-gray-600 font-medium hover:bg-gray-50 rounded-lg flex items-center justify-center gap-2"><Edit3 className="w-4 h-4" /> Edit Recognised Text</button>}
+              <button onClick={handleImageAIExtract} disabled={isProcessing || !imageFile} className="w-full bg-indigo-50 text-indigo-700 py-2 rounded-lg font-medium hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2 text-sm disabled:opacity-50">{isProcessing && scanProgress === null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Smartphone className="w-4 h-4" />}{isProcessing && scanProgress === null ? 'AI is Processing...' : 'Use AI on Image'}</button>
+            </div>
           ) : (
             <div className="space-y-4">
-              <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg"><p className="flex items-start gap-2"><ShieldCheck className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" /><span><strong>Privacy First:</strong> Copy/Paste text here. AI extracts details locally.</span></p></div>
+              <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg"><p className="flex items-start gap-2"><ShieldCheck className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" /><span><strong>Privacy First:</strong> Cards are extracted on your device. AI is only used if you ask for it.</span></p></div>
               <button onClick={handlePaste} className="w-full py-3 bg-gray-50 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-100 flex items-center justify-center gap-2 transition-colors"><Clipboard className="w-4 h-4" /> Paste from Clipboard</button>
               <textarea value={emailText} onChange={e => setEmailText(e.target.value)} className="w-full p-3 border border-gray-300 rounded-lg h-32 text-sm focus:ring-2 focus:ring-red-500 outline-none" placeholder="Or paste email or SMS content manually here..."></textarea>
-              <button onClick={handleEmailParse} disabled={isProcessing} className="w-full bg-indigo-600 text-white py-3 rounded-lg font-bold hover:bg-indigo-700 transition-colors shadow-lg shadow-indigo-200 flex items-center justify-center gap-2">{isProcessing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Smartphone className="w-5 h-5" />}{isProcessing ? 'AI is Processing...' : 'Sync from Text'}</button>
+              <button onClick={handleEmailParse} className="w-full bg-red-600 text-white py-3 rounded-lg font-bold hover:bg-red-700 transition-colors shadow-lg shadow-red-200 flex items-center justify-center gap-2"><FileJson className="w-5 h-5" /> Extract Cards</button>
+              <button onClick={handleAIExtract} disabled={isProcessing || !emailText.trim()} className="w-full bg-indigo-50 text-indigo-700 py-2 rounded-lg font-medium hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2 text-sm disabled:opacity-50">{isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Smartphone className="w-4 h-4" />}{isProcessing ? 'AI is Processing...' : 'Use AI Instead'}</button>
             </div>
           )}
-          <button onClick={onClose} className="w-full mt-3 py-3 text-gray-500 font-medium hover:bg-gray-50 rounded-lg transition-colors">Cancel</button>
+          <button onClick={closeModal} className="w-full mt-3 py-3 text-gray-500 font-medium hover:bg-gray-50 rounded-lg transition-colors">Cancel</button>
         </div>
       </div>
     </div>
@@ -688,61 +4460,161 @@ const AddCardModal = ({ isOpen, onClose, onAdd, openSettings }: { isOpen: boolea
 const App = () => {
   const [cards, setCards] = useState<GiftCard[]>([]);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [backupKey, setBackupKey] = useState<BackupKey | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [smsModalState, setSmsModalState] = useState<{isOpen: boolean, card: GiftCard | null}>({ isOpen: false, card: null });
+  const [smsModalState, setSmsModalState] = useState<{isOpen: boolean, card: GiftCard | null, text?: string}>({ isOpen: false, card: null });
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [showInstallHelp, setShowInstallHelp] = useState(false);
   const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [brandFilter, setBrandFilter] = useState<string | null>(null);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [presentCardId, setPresentCardId] = useState<string | null>(null);
+  const [shareCard, setShareCard] = useState<GiftCard | null>(null);
+  // A share link opened in this tab; kept through the lock screen and offered once unlocked
+  const [incomingShare, setIncomingShare] = useState<CardShare | null>(null);
+  // Same for text shared through the share target; it is routed once the cards are unlocked
+  const [incomingText, setIncomingText] = useState<string | null>(null);
+  const [cardImportText, setCardImportText] = useState('');
+  const [clipboardDetect, setClipboardDetect] = useState(isClipboardDetectEnabled);
+  const [clipboardOffer, setClipboardOffer] = useState<IncomingTextRoute | null>(null);
+  const lastClipboardText = useRef('');
+  const [trashDays, setTrashDays] = useState(getTrashDays);
+  const [lockSettings, setLockSettings] = useState<LockSettings>(getLockSettings);
+  const [undoToast, setUndoToast] = useState<{ id: number, label: string } | null>(null);
+  const undoStack = useRef<UndoEntry[]>([]);
+  const handoff = useRef(createHandoffTracker());
+  const [reminderDays, setReminderDays] = useState<number[]>(getReminderDays);
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const isApplyingUpdate = useRef(false);
+  const persistedCards = useRef<Map<string, GiftCard>>(new Map());
+  const persistQueue = useRef<Promise<void>>(Promise.resolve());
 
   // File System Backup State
-  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
+  const [backupDir, setBackupDir] = useState<FileSystemDirectoryHandle | null>(null);
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [backupStatus, setBackupStatus] = useState<{ lastBackup: number | null, error: string | null, pendingPermission: boolean }>({ lastBackup: null, error: null, pendingPermission: false });
 
-  // Load from local storage on mount
+  // Remote Sync State
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off', lastSync: null, error: null });
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const syncQueue = useRef<Promise<void>>(Promise.resolve());
+  const syncSession = useRef(0); // bumped on lock so a sync still in flight can't put cards back
+  const latestCards = useRef(cards);
+  latestCards.current = cards;
+
+  // Cards are loaded by AuthScreen once the vault is decrypted
   useEffect(() => {
-    const saved = localStorage.getItem('kfc_cards');
-    if (saved) setCards(JSON.parse(saved));
     if (Notification.permission === 'granted') setNotificationsEnabled(true);
     
-    // Load persisted file handle
+    // Load persisted folder handle
     getHandle().then(handle => {
        if (handle) {
-          setFileHandle(handle);
+          setBackupDir(handle);
           // Check permission immediately
           verifyPermission(handle, false).then(hasPerm => {
              setBackupStatus(prev => ({...prev, pendingPermission: !hasPerm}));
           });
+       } else {
+          // Upgraded from single-file backups: nothing is being saved until a folder is chosen
+          return getHandle<FileSystemFileHandle>(LEGACY_BACKUP_FILE_KEY).then(legacy => {
+             if (legacy) setBackupStatus(prev => ({...prev, error: "Backups now go to a folder. Select one to keep automatic backups running."}));
+          });
        }
     }).catch(e => console.log("No stored handle", e));
 
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('./sw.js')
+        .then(registration => {
+          // A worker already waiting means an update was downloaded on a previous visit
+          if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+          registration.addEventListener('updatefound', () => {
+            const installing = registration.installing;
+            installing?.addEventListener('statechange', () => {
+              if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(installing);
+            });
+          });
+          return requestReminderCheck();
+        })
+        .catch(e => console.log("Service worker registration failed", e));
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (isApplyingUpdate.current) window.location.reload();
+      });
+    }
+
     const handleBeforeInstallPrompt = (e: any) => { e.preventDefault(); setDeferredPrompt(e); };
     window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
-    return () => window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+
+    // The fragment is dropped once read so the shared card doesn't linger in the address bar or history
+    const handleHash = () => {
+      const share = readCardShareFromHash(location.hash);
+      if (share) setIncomingShare(share);
+      if (location.hash.startsWith('#share=')) history.replaceState(null, '', location.pathname + location.search);
+    };
+    handleHash();
+    window.addEventListener('hashchange', handleHash);
+
+    // Share target launches carry the text in the query; it is stripped for the same reason
+    const sharedText = readSharedText(location.search);
+    if (sharedText !== null) {
+      setIncomingText(sharedText);
+      history.replaceState(null, '', location.pathname + location.hash);
+    }
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+      window.removeEventListener('hashchange', handleHash);
+    };
   }, []);
 
-  useEffect(() => { localStorage.setItem('kfc_cards', JSON.stringify(cards)); }, [cards]);
+  // Persist only the cards that changed (updates always replace the card object) and drop deleted ones.
+  // Writes are chained so they land in IndexedDB in the order they were made.
+  useEffect(() => {
+    if (!vaultKey) return;
+    const previous = persistedCards.current;
+    const changed = cards.filter(c => previous.get(c.id) !== c);
+    const removed = [...previous.keys()].filter(id => !cards.some(c => c.id === id));
+    persistedCards.current = new Map(cards.map(c => [c.id, c]));
+    if (changed.length === 0 && removed.length === 0) return;
+    persistQueue.current = persistQueue.current
+      .then(() => writeCardChanges(vaultKey, changed, removed))
+      .catch(err => console.error("Vault save failed", err));
+  }, [cards, vaultKey]);
+
+  // Keep the service worker's reminder schedule in step with the (decrypted) cards
+  useEffect(() => {
+    if (!vaultKey) return;
+    const timeout = setTimeout(() => {
+      saveReminderSchedule(buildReminderSchedule(cards.filter(c => !isTrashed(c)), reminderDays))
+        .then(() => requestReminderCheck())
+        .catch(err => console.error("Could not save reminder schedule", err));
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [cards, reminderDays, vaultKey]);
 
   // Auto Backup Effect
   useEffect(() => {
-    if (!fileHandle || cards.length === 0) return;
+    if (!backupDir || cards.length === 0) return;
     
     const saveData = async () => {
+      if (!backupKey) {
+        setBackupStatus(s => ({ ...s, error: "Set a backup password to enable auto-save" }));
+        return;
+      }
       setIsBackingUp(true);
       try {
         // Need to ensure permission exists before writing
-        const hasPerm = await verifyPermission(fileHandle, false);
+        const hasPerm = await verifyPermission(backupDir, false);
         if (!hasPerm) {
            setBackupStatus(s => ({ ...s, pendingPermission: true, error: "Write permission needed" }));
            setIsBackingUp(false);
            return;
         }
 
-        const writable = await fileHandle.createWritable();
-        await writable.write(JSON.stringify(cards, null, 2));
-        await writable.close();
+        await writeSnapshot(backupDir, await sealBackup(backupKey, cards.filter(c => !isTrashed(c))), getRetentionPolicy());
         
         setBackupStatus({ lastBackup: Date.now(), error: null, pendingPermission: false });
       } catch (err: any) {
@@ -755,9 +4627,104 @@ const App = () => {
 
     const timeout = setTimeout(saveData, 2000); // 2s debounce
     return () => clearTimeout(timeout);
-  }, [cards, fileHandle]);
+  }, [cards, backupDir, backupKey]);
+
+  // Sync shortly after every change, and when the app comes back (another device may have synced meanwhile)
+  useEffect(() => {
+    if (!syncConfig) return;
+    const timeout = setTimeout(() => runSync(syncConfig, backupKey), 2000);
+    return () => clearTimeout(timeout);
+  }, [cards, syncConfig, backupKey]);
+
+  useEffect(() => {
+    if (!syncConfig) return;
+    const handleReturn = () => { if (document.visibilityState === 'visible') runSync(syncConfig, backupKey); };
+    document.addEventListener('visibilitychange', handleReturn);
+    window.addEventListener('online', handleReturn);
+    return () => {
+      document.removeEventListener('visibilitychange', handleReturn);
+      window.removeEventListener('online', handleReturn);
+    };
+  }, [syncConfig, backupKey]);
+
+  useEffect(() => {
+    if (!isAuthenticated || incomingText === null) return;
+    const route = routeIncomingText(incomingText, cards);
+    setIncomingText(null);
+    if (route.kind === 'none') alert(route.reason);
+    else openIncomingText(route);
+  }, [isAuthenticated, incomingText]);
+
+  // Each copied text is offered once; texts that aren't about gift cards are ignored silently
+  useEffect(() => {
+    if (!isAuthenticated || !clipboardDetect) return;
+    const checkClipboard = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const text = (await readClipboardSilently())?.trim();
+      if (!text || text === lastClipboardText.current) return;
+      lastClipboardText.current = text;
+      const route = routeIncomingText(text, latestCards.current);
+      setClipboardOffer(route.kind === 'none' ? null : route);
+    };
+    checkClipboard();
+    document.addEventListener('visibilitychange', checkClipboard);
+    window.addEventListener('focus', checkClipboard);
+    return () => {
+      document.removeEventListener('visibilitychange', checkClipboard);
+      window.removeEventListener('focus', checkClipboard);
+    };
+  }, [isAuthenticated, clipboardDetect]);
+
+  // Lock after a stretch without interaction and, if enabled, whenever the app leaves the screen.
+  // Timers are throttled in background tabs, so the idle time is also checked on return. The idle
+  // timer is paused while a card is on the quick-pay screen, which sits untouched at the till, and
+  // lock-on-hide during a hand-off to another app, which is checked again when the user comes back.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let lastActivity = Date.now();
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let handoffTimer: ReturnType<typeof setTimeout> | undefined;
+    const idleMs = presentCardId ? 0 : lockSettings.idleMinutes * 60 * 1000;
+    const resetIdle = () => {
+      lastActivity = Date.now();
+      clearTimeout(idleTimer);
+      if (idleMs > 0) idleTimer = setTimeout(lockApp, idleMs);
+    };
+    const lockOnHide = () => {
+      if (!lockSettings.lockOnHide) return;
+      const grace = handoff.current.leave();
+      clearTimeout(handoffTimer);
+      if (grace > 0) handoffTimer = setTimeout(lockApp, grace);
+      else lockApp();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') { lockOnHide(); return; }
+      clearTimeout(handoffTimer);
+      const lateFromHandoff = handoff.current.comeBack();
+      if ((lockSettings.lockOnHide && lateFromHandoff) || (idleMs > 0 && Date.now() - lastActivity >= idleMs)) lockApp();
+    };
+    const handlePageHide = lockOnHide;
+
+    resetIdle();
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, resetIdle, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      clearTimeout(idleTimer);
+      clearTimeout(handoffTimer);
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, resetIdle));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [isAuthenticated, lockSettings, presentCardId]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timeout = setTimeout(() => setUndoToast(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [undoToast]);
 
-  const verifyPermission = async (handle: FileSystemFileHandle, withUserGesture: boolean) => {
+  const verifyPermission = async (handle: FileSystemHandle, withUserGesture: boolean) => {
     const opts = { mode: 'readwrite' as const };
     // @ts-ignore
     if ((await (handle as any).queryPermission(opts)) === 'granted') return true;
@@ -768,19 +4735,14 @@ const App = () => {
     return false;
   };
 
-  const handleSelectBackupFile = async () => {
+  const handleSelectBackupFolder = async () => {
      try {
-       // @ts-ignore - TS doesn't fully know showSaveFilePicker yet
-       const handle = await window.showSaveFilePicker({
-          suggestedName: 'kfc_cards_backup.json',
-          types: [{
-            description: 'JSON Files',
-            accept: { 'application/json': ['.json'] },
-          }],
-       });
-       setFileHandle(handle);
+       // @ts-ignore - TS doesn't fully know showDirectoryPicker yet
+       const handle: FileSystemDirectoryHandle = await window.showDirectoryPicker({ id: 'kfc-backups', mode: 'readwrite' });
+       setBackupDir(handle);
        await saveHandle(handle);
-       setBackupStatus(s => ({...s, pendingPermission: false}));
+       await deleteHandle(LEGACY_BACKUP_FILE_KEY);
+       setBackupStatus(s => ({...s, pendingPermission: false, error: null}));
      } catch (err) {
        console.log("Picker cancelled or failed", err);
      }
@@ -790,89 +4752,279 @@ const App = () => {
 
   const handleInstallClick = async () => { if (deferredPrompt) { deferredPrompt.prompt(); const { outcome } = await deferredPrompt.userChoice; if (outcome === 'accepted') setDeferredPrompt(null); } else setShowInstallHelp(true); };
   const enableNotifications = async () => { const permission = await Notification.requestPermission(); if (permission === 'granted') setNotificationsEnabled(true); };
-  const updateBalanceManually = (id: string, newBalance: number, newExpiry?: string) => { setCards(prev => prev.map(c => c.id === id ? { ...c, balance: newBalance, lastUpdated: Date.now(), expiryDate: newExpiry !== undefined ? newExpiry : c.expiryDate } : c)); };
+  // Every user-facing change to the cards goes through here so the toast can put the previous state back
+  // Updaters return `prev` itself when nothing changed, which records no undo step and shows no toast.
+  // `update` runs exactly once, right away, so callers can read anything it worked out once this returns.
+  const mutateCards = (label: string, update: (prev: GiftCard[]) => GiftCard[]) => {
+    const prev = latestCards.current;
+    const next = update(prev);
+    if (next === prev) return;
+    // Ahead of the re-render, so a second change in the same event builds on this one
+    latestCards.current = next;
+    setCards(next);
+    undoStack.current = [...undoStack.current.slice(1 - UNDO_LIMIT), { label, cards: prev }];
+    setUndoToast({ id: Date.now(), label });
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack.current.pop();
+    if (entry) setCards(entry.cards);
+    setUndoToast(null);
+  };
+
+  const updateBalanceManually = (id: string, newBalance: number, newExpiry?: string, source: BalanceSource = 'manual', note?: string) => {
+    mutateCards("Balance updated", prev => prev.map(c => c.id === id ? withBalanceUpdate(c, newBalance, newExpiry, source, note) : c));
+  };
+
+  const deductQuickPay = (card: GiftCard, amount: number) => {
+    updateBalanceManually(card.id, (toPaise(card.balance) - toPaise(amount)) / 100, undefined, 'payment', 'Quick pay');
+  };
+
+  // One undo step for the whole bill, with a payment entry in each card's history
+  const applyPaymentPlan = (plan: PaymentPlan, total: number) => {
+    const amounts = new Map(plan.lines.map(line => [line.card.id, line.amount]));
+    const note = `Split payment of ₹${total.toFixed(2)}`;
+    mutateCards(`Paid ₹${(total - plan.shortfall).toFixed(2)} from ${plan.lines.length} card(s)`, prev => prev.map(c => {
+      const amount = amounts.get(c.id);
+      return amount === undefined ? c : withBalanceUpdate(c, (toPaise(c.balance) - toPaise(amount)) / 100, undefined, 'payment', note);
+    }));
+    setIsPlannerOpen(false);
+  };
   
+  const applySMSBalance = (card: GiftCard, balance: number, expiryDate?: string) => {
+    updateBalanceManually(card.id, balance, expiryDate, 'sms');
+    setSmsModalState({ isOpen: false, card: null });
+    if (notificationsEnabled) new Notification("Balance Updated", { body: `New balance: ₹${balance}` });
+  };
+
+  const beginHandoff = () => handoff.current.begin();
+
+  const openIncomingText = (route: IncomingTextRoute) => {
+    setClipboardOffer(null);
+    if (route.kind === 'cards') { setCardImportText(route.text); setIsModalOpen(true); }
+    if (route.kind === 'balance') setSmsModalState({ isOpen: true, card: route.card, text: route.text });
+  };
+
   const handleSMSParseProcess = async (text: string) => {
-    if (!smsModalState.card) return;
-    if (!checkApiKeyConfigured(() => setIsSettingsOpen(true))) return;
+    const card = smsModalState.card;
+    if (!card) return;
+    const parsed = parseBalanceSMS(text);
+    if (parsed) {
+      if (parsed.cardSuffix && !card.cardNumber.endsWith(parsed.cardSuffix) && !confirm(`This SMS is for a card ending ${parsed.cardSuffix}, not ${card.cardNumber.slice(-4)}.\n\nUpdate anyway?`)) return;
+      applySMSBalance(card, parsed.balance, parsed.expiryDate);
+      return;
+    }
+    if (!isAIFallbackEnabled()) { alert("Couldn't read this SMS offline.\n\nTurn on the AI fallback in Settings, or edit the balance manually."); return; }
+    if (!checkAIConfigured(() => setIsSettingsOpen(true))) return;
     try {
-      const ai = getAI();
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Analyze SMS related to KFC Gift Card. Extract BALANCE and EXPIRY. Text: "${text}". Return JSON: { "found": boolean, "balance": number, "expiryDate": string | null (dd/MMM/yyyy) }`,
-        config: { responseMimeType: "application/json", responseSchema: { type: Type.OBJECT, properties: { found: { type: Type.BOOLEAN }, balance: { type: Type.NUMBER }, expiryDate: { type: Type.STRING, nullable: true } }, required: ["found"] } }
-      });
-      const result = JSON.parse(cleanAIResponse(response.text) || '{}');
-      if (result.found && typeof result.balance === 'number') {
-        updateBalanceManually(smsModalState.card.id, result.balance, result.expiryDate);
-        setSmsModalState({ isOpen: false, card: null });
-        if (notificationsEnabled) new Notification("Balance Updated", { body: `New balance: ₹${result.balance}` });
-      } else alert("Balance not found in text.");
+      const result = await getAIProvider().extractBalance(text);
+      if (result.found && typeof result.balance === 'number') applySMSBalance(card, result.balance, result.expiryDate ? parseExpiryInput(result.expiryDate) || undefined : undefined);
+      else alert("Balance not found in text.");
     } catch (e: any) { alert(`AI Error: ${e.message}`); }
   };
 
   const handleAddCards = (newCardsData: NewCardData[]) => {
-    setCards(prev => {
-      const updatedList = [...prev];
-      const duplicates: string[] = [];
-      newCardsData.forEach(cardData => {
-        const normalizedNum = cardData.cardNumber.trim();
-        if (updatedList.some(c => c.cardNumber === normalizedNum)) duplicates.push(normalizedNum);
-        else updatedList.push({ id: Date.now().toString() + Math.random().toString(36).substring(2, 9), cardNumber: normalizedNum, pin: cardData.pin, balance: cardData.balance, lastUpdated: Date.now() });
+    let skipped: string[] = [];
+    mutateCards(`Added ${newCardsData.length} card(s)`, prev => {
+      const incoming = newCardsData.map(cardData => ({ ...cardData, ...validateCardFields(cardData) }));
+      // Re-adding a card that is in the trash replaces the trashed copy
+      const updatedList = prev.filter(c => !isTrashed(c) || !incoming.some(d => d.cardNumber === cardKey(c)));
+      let duplicates = 0;
+      let invalid = 0;
+      let added = 0;
+      incoming.forEach(cardData => {
+        if (hasFieldErrors(cardData.errors)) invalid++;
+        else if (updatedList.some(c => cardKey(c) === cardData.cardNumber)) duplicates++;
+        else { added++; updatedList.push({ id: Date.now().toString() + Math.random().toString(36).substring(2, 9), cardNumber: cardData.cardNumber, pin: cardData.pin, balance: cardData.balance, expiryDate: cardData.expiryDate, brand: cardData.brand, lastUpdated: Date.now(), history: [createHistoryEntry(0, cardData.balance, 'added')] }); }
       });
-      if (duplicates.length > 0) setTimeout(() => alert(`Skipped ${duplicates.length} duplicate(s).`), 200);
-      return updatedList;
+      skipped = [duplicates > 0 && `${duplicates} duplicate(s)`, invalid > 0 && `${invalid} invalid card(s)`].filter((s): s is string => !!s);
+      return added === 0 && updatedList.length === prev.length ? prev : updatedList;
     });
+    if (skipped.length > 0) setTimeout(() => alert(`Skipped ${skipped.join(' and ')}.`), 200);
+  };
+
+  // Trashing counts as an update so it syncs to other devices
+  const deleteCard = (id: string) => { mutateCards("Card moved to trash", prev => prev.map(c => c.id === id ? { ...c, deletedAt: Date.now(), lastUpdated: Date.now() } : c)); };
+  const restoreCard = (id: string) => { mutateCards("Card restored", prev => prev.map(c => c.id === id ? { ...c, deletedAt: undefined, lastUpdated: Date.now() } : c)); };
+  const deleteCardForever = (id: string) => {
+    if (confirm("Delete this card permanently?")) mutateCards("Card deleted permanently", prev => prev.filter(c => c.id !== id));
+  };
+  const emptyTrash = () => {
+    if (confirm("Permanently delete all cards in the trash?")) mutateCards("Trash emptied", prev => prev.filter(c => !isTrashed(c)));
+  };
+
+  const markCardShared = (card: GiftCard, name: string) => {
+    mutateCards(`Shared with ${name}`, prev => prev.map(c => c.id === card.id ? { ...c, sharedWith: { name, at: Date.now() }, lastUpdated: Date.now() } : c));
+  };
+  const clearCardShared = (id: string) => {
+    mutateCards("Share mark cleared", prev => prev.map(c => c.id === id ? { ...c, sharedWith: undefined, lastUpdated: Date.now() } : c));
+  };
+
+  const addSharedCard = (card: NewCardData) => {
+    handleAddCards([card]);
+    setIncomingShare(null);
+  };
+
+  const handleTrashDaysChange = (days: number) => {
+    setTrashDays(days);
+    setCards(prev => purgeExpiredTrash(prev, days));
   };
 
-  const deleteCard = (id: string) => { setCards(prev => prev.filter(c => c.id !== id)); };
   const handleImport = (importedCards: GiftCard[]) => {
-    setCards(prev => {
+    mutateCards(`Imported ${importedCards.length} card(s)`, prev => {
        const newCards = [...prev];
        importedCards.forEach(imp => {
-          const index = newCards.findIndex(c => c.cardNumber === imp.cardNumber);
-          if (index >= 0) newCards[index] = { ...newCards[index], ...imp, id: newCards[index].id };
-          else newCards.push({ ...imp, id: Date.now().toString() + Math.random().toString(36).substring(2, 9) });
+          const index = newCards.findIndex(c => cardKey(c) === cardKey(imp));
+          if (index >= 0) {
+            const local = newCards[index];
+            const history = mergeHistory(local.history, imp.history);
+            if (local.balance !== imp.balance) history.push(createHistoryEntry(local.balance, imp.balance, 'import'));
+            // An imported card that is in the trash comes back out
+            newCards[index] = { ...local, ...imp, id: local.id, history, deletedAt: undefined };
+          } else {
+            const history = imp.history && imp.history.length > 0 ? imp.history : [createHistoryEntry(0, imp.balance, 'import')];
+            newCards.push({ ...imp, id: Date.now().toString() + Math.random().toString(36).substring(2, 9), history });
+          }
        });
        return newCards;
     });
   };
 
+  const handleReplaceAll = (restored: GiftCard[]) => { mutateCards("Snapshot restored", () => restored.map(normalizeCardExpiry)); };
+
   const isCardArchived = (card: GiftCard) => {
     if (card.balance === 0) return true;
-    if (card.expiryDate) {
+    const expiry = getCardExpiry(card);
+    if (expiry && expiry < new Date()) return true;
+    return false;
+  };
+
+  // Soonest expiry first; cards without a known expiry keep their order at the end
+  const liveCards = cards.filter(c => !isTrashed(c));
+  const brandCounts = BRANDS.map(brand => ({ brand, count: liveCards.filter(c => getCardBrand(c).id === brand.id).length })).filter(b => b.count > 0);
+  // A filter whose last card was deleted falls back to showing everything
+  const activeBrand = brandCounts.length > 1 && brandCounts.some(b => b.brand.id === brandFilter) ? brandFilter : null;
+  const visibleCards = activeBrand ? liveCards.filter(c => getCardBrand(c).id === activeBrand) : liveCards;
+  const activeCards = visibleCards.filter(c => !isCardArchived(c)).sort((a, b) => (getCardExpiry(a)?.getTime() ?? Infinity) - (getCardExpiry(b)?.getTime() ?? Infinity));
+  const archivedCards = visibleCards.filter(c => isCardArchived(c));
+  const trashedCards = cards.filter(isTrashed).sort((a, b) => b.deletedAt! - a.deletedAt!);
+  // Looked up by id so the quick-pay screen follows balance changes and closes if the card is deleted
+  const presentCard = liveCards.find(c => c.id === presentCardId) ?? null;
+  const expiringSoon = getExpiringCards(activeCards, Math.max(...reminderDays, 0));
+
+  const handleUnlock = (key: CryptoKey, unlockedCards: GiftCard[]) => {
+    persistedCards.current = new Map(unlockedCards.map(c => [c.id, c]));
+    setVaultKey(key);
+    setCards(purgeExpiredTrash(unlockedCards, trashDays).map(normalizeCardExpiry));
+    setIsAuthenticated(true);
+    // Sync waits for the backup key, otherwise its first run would find none and ask for the password
+    loadBackupKey(key).then(setBackupKey).catch(err => console.error("Could not load backup key", err))
+      .then(() => loadSyncConfig(key)).then(config => {
+        setSyncConfig(config);
+        if (config) setSyncStatus(s => ({ ...s, state: 'syncing' }));
+      }).catch(err => console.error("Could not load sync settings", err));
+  };
+
+  const handleSetBackupPassphrase = async (passphrase: string) => {
+    if (!vaultKey) return;
+    // Catch up first: changes from other devices are only readable with the old password
+    if (syncConfig) await runSync(syncConfig, backupKey);
+    setBackupKey(await setBackupPassphrase(vaultKey, passphrase));
+  };
+
+  // Syncs run one at a time and read the cards when they start, so a queued one never pushes a stale list
+  const runSync = (config: SyncConfig, key: BackupKey | null) => {
+    const session = syncSession.current;
+    syncQueue.current = syncQueue.current.then(async () => {
+      if (session !== syncSession.current) return;
+      setSyncStatus(s => ({ ...s, state: 'syncing' }));
+      const snapshot = latestCards.current;
       try {
-        const parts = card.expiryDate.split(/[\/\-\s]/);
-        if (parts.length === 3) {
-          const day = parseInt(parts[0], 10);
-          const monthStr = parts[1].toLowerCase();
-          const year = parseInt(parts[2], 10);
-          const months: Record<string, number> = { jan:0, feb:1, mar:2, apr:3, may:4, jun:5, jul:6, aug:7, sep:8, oct:9, nov:10, dec:11 };
-          let month = months[monthStr.substring(0, 3)];
-          if (month === undefined && !isNaN(parseInt(monthStr))) month = parseInt(monthStr) - 1;
-          if (month !== undefined && !isNaN(day) && !isNaN(year)) {
-            const expiry = new Date(year, month, day); expiry.setHours(23, 59, 59, 999);
-            if (expiry < new Date()) return true;
-          }
+        const result = await syncWithRemote(createSyncRemote(config), key, snapshot, getSyncBaseline());
+        if (session !== syncSession.current) return;
+        if (result.status === 'needs-password') { setSyncStatus(s => ({ ...s, state: 'needs-password', error: null })); return; }
+        saveSyncBaseline(result.baseline);
+        const merged = result.cards;
+        if (merged && !sameVersions(cardVersions(merged), cardVersions(snapshot))) {
+          // Merging again against the new baseline keeps edits made while the sync was in flight
+          setCards(prev => prev === snapshot ? merged : mergeSyncedCards(prev, merged, result.baseline.cards).cards);
         }
-      } catch (e) {}
+        if (result.conflicts.length > 0) setSyncConflicts(prev => [...prev.filter(c => !result.conflicts.some(n => n.id === c.id)), ...result.conflicts]);
+        setSyncStatus({ state: 'synced', lastSync: Date.now(), error: null });
+      } catch (err: any) {
+        console.error("Sync failed", err);
+        if (session === syncSession.current) setSyncStatus(s => ({ ...s, state: 'error', error: err.message }));
+      }
+    });
+    return syncQueue.current;
+  };
+
+  const handleSaveSyncConfig = async (config: SyncConfig | null) => {
+    if (!vaultKey) return;
+    await saveSyncConfig(vaultKey, config);
+    setSyncConflicts([]);
+    setSyncStatus({ state: config ? 'syncing' : 'off', lastSync: null, error: null });
+    setSyncConfig(config);
+  };
+
+  const handleUnlockSync = async (passphrase: string) => {
+    if (!vaultKey || !syncConfig) return false;
+    const key = await adoptRemoteBackupPassword(createSyncRemote(syncConfig), vaultKey, passphrase);
+    if (key) setBackupKey(key);
+    return !!key;
+  };
+
+  // Choosing the version that lost makes it the newest edit, so it wins on every device at the next sync
+  const resolveSyncConflict = (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    if (keep !== conflict.kept) {
+      const chosen = conflict[keep];
+      mutateCards("Sync conflict resolved", prev => prev.map(c => c.id === conflict.id ? { ...chosen, lastUpdated: Date.now() } : c));
     }
-    return false;
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
+
+  // Drops the keys and every copy of the decrypted cards (state, persistence snapshot, undo history, open modals)
+  const lockApp = () => {
+    setIsAuthenticated(false);
+    setVaultKey(null);
+    setBackupKey(null);
+    setCards([]);
+    persistedCards.current = new Map();
+    undoStack.current = [];
+    setUndoToast(null);
+    setSmsModalState({ isOpen: false, card: null });
+    setIsModalOpen(false);
+    setCardImportText('');
+    setClipboardOffer(null);
+    setIsSettingsOpen(false);
+    setIsPlannerOpen(false);
+    setPresentCardId(null);
+    setShareCard(null);
+    syncSession.current++;
+    setSyncConfig(null);
+    setSyncConflicts([]);
+    setSyncStatus({ state: 'off', lastSync: null, error: null });
+  };
+
+  const applyUpdate = () => {
+    if (!waitingWorker) return;
+    isApplyingUpdate.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
   };
 
-  const activeCards = cards.filter(c => !isCardArchived(c));
-  const archivedCards = cards.filter(c => isCardArchived(c));
+  const updateBanner = waitingWorker && <UpdateBanner onUpdate={applyUpdate} onDismiss={() => setWaitingWorker(null)} />;
 
-  if (!isAuthenticated) return <AuthScreen onAuthenticated={() => setIsAuthenticated(true)} />;
+  if (!isAuthenticated) return <>{updateBanner}<AuthScreen onAuthenticated={handleUnlock} /></>;
 
   return (
     <div className="min-h-screen pb-24">
-      <Header onInstall={handleInstallClick} onLogout={() => setIsAuthenticated(false)} onOpenSettings={() => setIsSettingsOpen(true)} isBackingUp={isBackingUp} />
+      {updateBanner}
+      <Header onInstall={handleInstallClick} onLogout={lockApp} onOpenSettings={() => setIsSettingsOpen(true)} syncState={syncStatus.state} conflictCount={syncConflicts.length} isBackingUp={isBackingUp} />
 
       <main className="max-w-md mx-auto p-4 space-y-6">
         {!notificationsEnabled && (
           <div className="bg-blue-50 border border-blue-100 p-4 rounded-xl flex items-center justify-between shadow-sm">
-            <div className="flex items-center gap-3"><div className="bg-blue-100 p-2 rounded-full"><Bell className="w-5 h-5 text-blue-600" /></div><div><p className="text-sm font-bold text-gray-800">Enable Alerts</p><p className="text-xs text-gray-500">Get notified on updates</p></div></div>
+            <div className="flex items-center gap-3"><div className="bg-blue-100 p-2 rounded-full"><Bell className="w-5 h-5 text-blue-600" /></div><div><p className="text-sm font-bold text-gray-800">Enable Alerts</p><p className="text-xs text-gray-500">Get expiry reminders and updates</p></div></div>
             <button onClick={enableNotifications} className="text-xs bg-blue-600 text-white px-3 py-2 rounded-lg font-bold hover:bg-blue-700 transition">Enable</button>
           </div>
         )}
@@ -882,8 +5034,33 @@ const App = () => {
           <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100"><p className="text-xs text-gray-500 uppercase font-bold">Active Cards</p><p className="text-2xl font-bold text-gray-800">{activeCards.length}</p></div>
         </div>
 
+        {activeCards.length > 0 && (
+          <button onClick={() => setIsPlannerOpen(true)} className="w-full bg-white p-3 rounded-xl shadow-sm border border-gray-100 flex items-center justify-center gap-2 text-sm font-bold text-gray-700 hover:bg-gray-50 transition-colors"><Calculator className="w-4 h-4 text-red-600" /> Plan a Payment</button>
+        )}
+
+        {expiringSoon.length > 0 && (
+          <div className="bg-amber-50 border border-amber-100 p-4 rounded-xl shadow-sm space-y-2">
+            <div className="flex items-center gap-2"><CalendarClock className="w-4 h-4 text-amber-600" /><p className="text-sm font-bold text-gray-800">Expiring Soon</p></div>
+            {expiringSoon.map(({ card, expiry }) => (
+              <div key={card.id} className="flex items-center justify-between text-xs bg-white px-3 py-2 rounded-lg border border-amber-100">
+                <span className="font-mono text-gray-600">•••• {card.cardNumber.slice(-4)}</span>
+                <span className="font-bold text-gray-800">₹{card.balance.toFixed(2)}</span>
+                <span className={`font-medium ${daysUntil(expiry) <= 7 ? 'text-red-600' : 'text-amber-700'}`}>{daysUntil(expiry) === 0 ? 'Today' : `${daysUntil(expiry)} day(s)`}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-4">
-          <div className="flex items-center justify-between px-1"><h2 className="text-lg font-bold text-gray-800">Your Cards</h2><span className="text-xs text-gray-400">Auto-sync {fileHandle ? 'ON' : 'OFF'}</span></div>
+          <div className="flex items-center justify-between px-1"><h2 className="text-lg font-bold text-gray-800">Your Cards</h2><span className="text-xs text-gray-400">Auto-backup {backupDir ? 'ON' : 'OFF'}</span></div>
+          {brandCounts.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto pb-1 px-1">
+              <button onClick={() => setBrandFilter(null)} className={`shrink-0 px-3 py-1 rounded-full text-xs font-bold border ${!activeBrand ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-200'}`}>All ({liveCards.length})</button>
+              {brandCounts.map(({ brand, count }) => (
+                <button key={brand.id} onClick={() => setBrandFilter(activeBrand === brand.id ? null : brand.id)} className={`shrink-0 px-3 py-1 rounded-full text-xs font-bold border ${activeBrand === brand.id ? 'text-white border-transparent' : 'bg-white text-gray-600 border-gray-200'}`} style={activeBrand === brand.id ? { backgroundColor: brand.colors.from } : undefined}>{brand.name} ({count})</button>
+              ))}
+            </div>
+          )}
           {activeCards.length === 0 && archivedCards.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300">
               <div className="bg-red-50 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"><CreditCard className="w-8 h-8 text-red-400" /></div>
@@ -891,35 +5068,88 @@ const App = () => {
               <button onClick={() => setIsModalOpen(true)} className="text-red-600 font-bold text-sm hover:underline">Add your first card</button>
             </div>
           ) : activeCards.length === 0 ? <div className="text-center py-8"><p className="text-gray-500 text-sm">All your cards are archived.</p></div> : (
-            activeCards.map(card => <CardItem key={card.id} card={card} onDelete={deleteCard} onUpdateBalance={updateBalanceManually} onCheckBalance={(card) => setSmsModalState({ isOpen: true, card })} />)
+            activeCards.map(card => <CardItem key={card.id} card={card} onDelete={deleteCard} onUpdateBalance={updateBalanceManually} onCheckBalance={(card) => setSmsModalState({ isOpen: true, card })} onPresent={(card) => setPresentCardId(card.id)} onShare={setShareCard} onClearShared={clearCardShared} revealSeconds={lockSettings.revealSeconds} />)
           )}
         </div>
 
         {archivedCards.length > 0 && (
           <div className="pt-4 border-t border-gray-200">
              <button onClick={() => setIsArchiveOpen(!isArchiveOpen)} className="flex items-center justify-between w-full p-2 text-gray-500 hover:text-gray-700 transition-colors"><div className="flex items-center gap-2 font-medium"><Archive className="w-4 h-4" /><span>Archived ({archivedCards.length})</span></div>{isArchiveOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</button>
-             {isArchiveOpen && <div className="mt-4 space-y-4 animate-in slide-in-from-top-2 duration-200">{archivedCards.map(card => <CardItem key={card.id} card={card} onDelete={deleteCard} onUpdateBalance={updateBalanceManually} onCheckBalance={(card) => setSmsModalState({ isOpen: true, card })} isArchived={true} />)}</div>}
+             {isArchiveOpen && <div className="mt-4 space-y-4 animate-in slide-in-from-top-2 duration-200">{archivedCards.map(card => <CardItem key={card.id} card={card} onDelete={deleteCard} onUpdateBalance={updateBalanceManually} onCheckBalance={(card) => setSmsModalState({ isOpen: true, card })} isArchived={true} revealSeconds={lockSettings.revealSeconds} />)}</div>}
+          </div>
+        )}
+
+        {trashedCards.length > 0 && (
+          <div className="pt-4 border-t border-gray-200">
+             <button onClick={() => setIsTrashOpen(!isTrashOpen)} className="flex items-center justify-between w-full p-2 text-gray-500 hover:text-gray-700 transition-colors"><div className="flex items-center gap-2 font-medium"><Trash2 className="w-4 h-4" /><span>Trash ({trashedCards.length})</span></div>{isTrashOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</button>
+             {isTrashOpen && (
+               <div className="mt-4 space-y-2 animate-in slide-in-from-top-2 duration-200">
+                 <p className="text-[10px] text-gray-400 px-1">Cards are permanently deleted {trashDays} day(s) after being moved here.</p>
+                 {trashedCards.map(card => (
+                   <div key={card.id} className="flex items-center justify-between gap-2 text-xs bg-white px-3 py-2 rounded-lg border border-gray-100">
+                     <div>
+                       <p className="font-mono text-gray-600">•••• {card.cardNumber.slice(-4)} <span className="font-sans font-bold text-gray-800">₹{card.balance.toFixed(2)}</span></p>
+                       <p className="text-[10px] text-gray-400">Deleted {new Date(card.deletedAt!).toLocaleDateString()} · purged {trashPurgeDate(card, trashDays).toLocaleDateString()}</p>
+                     </div>
+                     <div className="flex items-center gap-1">
+                       <button onClick={() => restoreCard(card.id)} className="flex items-center gap-1 px-2 py-1 bg-green-50 text-green-700 rounded-md font-medium hover:bg-green-100"><RotateCcw className="w-3 h-3" /> Restore</button>
+                       <button onClick={() => deleteCardForever(card.id)} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md" title="Delete permanently"><X className="w-4 h-4" /></button>
+                     </div>
+                   </div>
+                 ))}
+                 <button onClick={emptyTrash} className="w-full py-2 text-xs text-red-600 font-medium hover:bg-red-50 rounded-lg">Empty Trash</button>
+               </div>
+             )}
           </div>
         )}
       </main>
 
+      {undoToast && <UndoToast label={undoToast.label} onUndo={handleUndo} onDismiss={() => setUndoToast(null)} />}
+      {clipboardOffer && !waitingWorker && <ClipboardBanner route={clipboardOffer} onOpen={() => openIncomingText(clipboardOffer)} onDismiss={() => setClipboardOffer(null)} />}
+
       <div className="fixed bottom-6 right-6 z-40"><button onClick={() => setIsModalOpen(true)} className="bg-red-600 text-white p-4 rounded-full shadow-lg shadow-red-300 hover:bg-red-700 hover:scale-105 transition-all"><Plus className="w-8 h-8" /></button></div>
-      <AddCardModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onAdd={handleAddCards} openSettings={() => { setIsModalOpen(false); setIsSettingsOpen(true); }} />
-      <SMSUpdateModal isOpen={smsModalState.isOpen} onClose={() => setSmsModalState({ isOpen: false, card: null })} card={smsModalState.card} onProcess={handleSMSParseProcess} />
+      <AddCardModal isOpen={isModalOpen} onClose={() => { setIsModalOpen(false); setCardImportText(''); }} onAdd={handleAddCards} openSettings={() => { setIsModalOpen(false); setCardImportText(''); setIsSettingsOpen(true); }} initialText={cardImportText} onLeaveApp={beginHandoff} />
+      {shareCard && <ShareCardModal card={shareCard} onClose={() => setShareCard(null)} onShared={markCardShared} onLeaveApp={beginHandoff} />}
+      {incomingShare && <ReceiveShareModal share={incomingShare} onClose={() => setIncomingShare(null)} onAdd={addSharedCard} />}
+      {presentCard && <QuickPayScreen card={presentCard} onClose={() => setPresentCardId(null)} onDeduct={deductQuickPay} />}
+      <PaymentPlannerModal isOpen={isPlannerOpen} onClose={() => setIsPlannerOpen(false)} cards={liveCards.filter(c => !isCardArchived(c))} defaultBrand={activeBrand} onConfirm={applyPaymentPlan} />
+      <SMSUpdateModal isOpen={smsModalState.isOpen} onClose={() => setSmsModalState({ isOpen: false, card: null })} card={smsModalState.card} initialText={smsModalState.text} onProcess={handleSMSParseProcess} onLeaveApp={beginHandoff} />
       <SettingsModal 
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
-        cards={cards}
+        cards={liveCards}
         onImport={handleImport}
-        fileHandle={fileHandle}
-        onSelectBackupFile={handleSelectBackupFile}
+        reminderDays={reminderDays}
+        onReminderDaysChange={setReminderDays}
+        clipboardDetect={clipboardDetect}
+        onClipboardDetectChange={setClipboardDetect}
+        trashDays={trashDays}
+        onTrashDaysChange={handleTrashDaysChange}
+        lockSettings={lockSettings}
+        onLockSettingsChange={setLockSettings}
+        backupKey={backupKey}
+        onSetBackupPassphrase={handleSetBackupPassphrase}
+        onReplaceAll={handleReplaceAll}
+        backupDir={backupDir}
+        onSelectBackupFolder={handleSelectBackupFolder}
         backupStatus={backupStatus}
-        onVerifyPermission={() => fileHandle && verifyPermission(fileHandle, true).then(has => setBackupStatus(s => ({...s, pendingPermission: !has})))}
+        onVerifyPermission={() => backupDir && verifyPermission(backupDir, true).then(has => setBackupStatus(s => ({...s, pendingPermission: !has})))}
+        syncConfig={syncConfig}
+        syncStatus={syncStatus}
+        syncConflicts={syncConflicts}
+        onSaveSyncConfig={handleSaveSyncConfig}
+        onSyncNow={() => syncConfig && runSync(syncConfig, backupKey)}
+        onUnlockSync={handleUnlockSync}
+        onResolveSyncConflict={resolveSyncConflict}
+        onOpenCardShare={(share) => { setIsSettingsOpen(false); setIncomingShare(share); }}
+        onLeaveApp={beginHandoff}
       />
       <InstallHelpModal isOpen={showInstallHelp} onClose={() => setShowInstallHelp(false)} />
     </div>
   );
 };
 
-const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+// The tests import this module for its parsers; there is no page to render into there
+if (typeof document !== 'undefined') createRoot(document.getElementById('root')!).render(<App />);
+
+export { passesLuhn, validateCardFields, extractCardsFromText, parseBalanceSMS, parseExpiryInput, getCardExpiry, normalizeCardExpiry, validateImportedCard, buildImportPreview, selectSnapshotsToKeep, mergeSyncedCards, syncWithRemote, planPayment, encodeCode128, encodeQR, readSharedText, routeIncomingText, createHandoffTracker };
\ No newline at end of file
@@ -0,0 +1,161 @@
+// --- Service Worker ---
+// Makes the installed app work offline (cache-first for the app shell and its CDN dependencies)
+// and fires gift card expiry reminders from the schedule the app keeps in IndexedDB.
+
+// Bump on every deploy: a changed worker is what tells open tabs an update is available
+const CACHE_VERSION = 'v5';
+const CACHE_NAME = `kfc-gc-${CACHE_VERSION}`;
+
+const APP_SHELL = ['./', './index.html', './index.tsx', './manifest.webmanifest'];
+
+// Keep in sync with the <script>/<link> tags and import map in index.html
+const CDN_ASSETS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700&display=swap',
+  'https://unpkg.com/@babel/standalone@7.24.7/babel.min.js',
+  'https://esm.sh/react@^19.2.3',
+  'https://esm.sh/react-dom@^19.2.3/client',
+  'https://esm.sh/lucide-react@^0.562.0',
+  'https://esm.sh/@google/genai@^1.34.0',
+  'https://esm.sh/jsqr@^1.4.0',
+  'https://esm.sh/tesseract.js@^6.0.1'
+];
+
+// Modules and fonts pulled in indirectly by the assets above are cached the first time they load.
+// jsDelivr serves the OCR worker, its WASM core and language data, fetched on the first image scan.
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'unpkg.com', 'esm.sh', 'cdn.jsdelivr.net'];
+
+const DB_NAME = 'kfc_db';
+const REMINDER_STORE = 'reminders';
+const REMINDER_SYNC_TAG = 'kfc-expiry-reminders';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(APP_SHELL);
+    // Cached one by one and best-effort. Module scripts need a CORS response; classic scripts and
+    // stylesheets can make do with an opaque one (which addAll would reject).
+    await Promise.all(CDN_ASSETS.map(async (url) => {
+      try {
+        const response = await fetch(url).catch(() => fetch(new Request(url, { mode: 'no-cors' })));
+        await cache.put(url, response);
+      } catch (err) {
+        console.warn('Precache failed', url, err);
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('kfc-gc-') && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+  if (cached) return cached;
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    // Offline navigation to any in-scope URL gets the app shell
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('./index.html');
+      if (shell) return shell;
+    }
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin && !RUNTIME_HOSTS.includes(url.hostname)) return;
+  event.respondWith(cacheFirst(request));
+});
+
+// Opened without a version so the app stays in charge of schema upgrades. If the app hasn't created
+// the database yet, the upgrade is aborted rather than leaving an empty one behind.
+const openDB = () => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readValue = (db, key) => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(REMINDER_STORE, 'readonly').objectStore(REMINDER_STORE).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeValue = (db, key, value) => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, 'readwrite');
+    tx.objectStore(REMINDER_STORE).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const checkReminders = async () => {
+  const db = await openDB().catch(() => null);
+  if (!db) return;
+  try {
+    if (!db.objectStoreNames.contains(REMINDER_STORE)) return;
+    const schedule = (await readValue(db, 'schedule')) || [];
+    const sent = new Set((await readValue(db, 'sent')) || []);
+    const now = Date.now();
+    const due = schedule.filter(r => r.at <= now && r.expiresAt > now && !sent.has(r.tag));
+
+    // Only the closest window per card, so a card added late doesn't fire every reminder at once
+    const latestByCard = new Map();
+    due.forEach(r => {
+      const current = latestByCard.get(r.cardId);
+      if (!current || r.at > current.at) latestByCard.set(r.cardId, r);
+    });
+    for (const reminder of latestByCard.values()) {
+      await self.registration.showNotification(reminder.title, { body: reminder.body, tag: reminder.cardId });
+    }
+
+    // Forget tags that are no longer scheduled (card deleted, expiry changed)
+    due.forEach(r => sent.add(r.tag));
+    const live = new Set(schedule.map(r => r.tag));
+    await writeValue(db, 'sent', [...sent].filter(tag => live.has(tag)));
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(checkReminders());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CHECK_REMINDERS') event.waitUntil(checkReminders());
+  // Sent when the user accepts the in-app "update available" prompt
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(self.registration.scope);
+  })());
+});